@@ -1,36 +1,144 @@
 // AzGuard wallet client implementation
 import { AzguardClient } from '@azguardwallet/client';
+import { Fr, FunctionSelector, Point, Schnorr } from '@aztec/aztec.js';
+import { SchnorrSignature, sha256ToField } from '@aztec/foundation/crypto';
+import { computeInitializationHashFromEncodedArgs } from '@aztec/stdlib/contract';
+import {
+  executeAzGuardOperations,
+  sendAzGuardTransaction,
+  type AzGuardBatchResult,
+  type AzGuardOperation
+} from './azguard-execute';
+import { azguardSession, type AzGuardPermission } from './azguard-session';
+import type { AztecContractCall } from './aztec-contracts';
+import { DecodingError, toWalletError } from './aztec-errors';
+import { aztecNetwork } from './aztec-network';
+import { getJsonRpcTransport } from './json-rpc-transport';
+import { AZTEC_NAMESPACE, formatCaipAccount, parseCaipAccount, type CaipAccount } from './caip10';
+import type {
+  WalletAccount,
+  WalletConnectionResult,
+  WalletConnector,
+  WalletTransactionRequest,
+  WalletTransactionResult
+} from './wallet-connector';
 
-let azguardInstance: any = null;
+let azguardAccount: AzGuardAccount | null = null;
 
-export interface AzGuardConnectionResult {
-  success: boolean;
-  account?: any;
-  address?: string;
-  provider?: string;
-  error?: string;
+export interface AzGuardAccount extends WalletAccount {
+  fullAccount: string;
+  signMessage: (msg: string) => Promise<string>;
+  // Submit one or more contract calls as a single transaction, resolves to the tx hash
+  sendTransaction: (calls: AztecContractCall | AztecContractCall[]) => Promise<string>;
+  // Several operations behind one approval, with a typed result per operation
+  execute: <const Ops extends readonly AzGuardOperation[]>(operations: Ops) => Promise<AzGuardBatchResult<Ops>>;
+  _azguardClient: AzguardClient;
 }
 
-function createAccountWrapper(address: string, fullAccount: string, client: any) {
+export type AzGuardConnectionResult = WalletConnectionResult<AzGuardAccount>;
+
+export interface AzGuardAccountInfo extends CaipAccount {
+  fullAccount: string;
+  selected: boolean;
+}
+
+export interface AzGuardConnectOptions {
+  chains?: string[];
+  methods?: string[];
+  optionalPermissions?: AzGuardPermission[];
+}
+
+export const DEFAULT_AZGUARD_METHODS = ['send_transaction', 'call', 'sign_message'];
+
+// AzGuard identifies Aztec chains by the L1 chain id of the active network
+export const defaultAzGuardChains = (): string[] =>
+  [`${AZTEC_NAMESPACE}:${aztecNetwork.getActiveNetwork().l1ChainId}`];
+
+// Prefix so a signed login message can never be replayed as a transaction payload
+const SIGNED_MESSAGE_PREFIX = 'Aztlan Quest Signed Message:\n';
+
+// Schnorr account contracts are initialized with constructor(signing_pub_key_x, signing_pub_key_y)
+const SCHNORR_ACCOUNT_CONSTRUCTOR = 'constructor(Field,Field)';
+
+export const hashMessage = (message: string): Fr => {
+  return sha256ToField([new TextEncoder().encode(SIGNED_MESSAGE_PREFIX + message)]);
+};
+
+// Signature format: 0x<signing public key x||y (64 bytes)><schnorr signature (64 bytes)>
+const encodeSignature = (publicKey: string, signature: string): string => {
+  const publicKeyHex = publicKey.replace(/^0x/, '').padStart(128, '0');
+  const signatureHex = signature.replace(/^0x/, '').padStart(128, '0');
+  return '0x' + publicKeyHex + signatureHex;
+};
+
+const decodeSignature = (signature: string): { publicKey: Point; schnorrSignature: SchnorrSignature } => {
+  const hex = signature.replace(/^0x/, '');
+  if (!/^[0-9a-fA-F]{256}$/.test(hex)) {
+    throw new DecodingError('Invalid AzGuard signature format', signature);
+  }
+  return {
+    publicKey: Point.fromString('0x' + hex.slice(0, 128)),
+    schnorrSignature: SchnorrSignature.fromString('0x' + hex.slice(128))
+  };
+};
+
+function createAccountWrapper(address: string, fullAccount: string, client: AzguardClient): AzGuardAccount {
   return {
     address,
     fullAccount,
     getAddress: () => ({ toString: () => address }),
     signMessage: async (msg: string) => {
-      // Hash-based signature for Azguard
-      const encoder = new TextEncoder();
-      const data = encoder.encode(msg);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      return '0x' + hashHex;
+      // Let the wallet sign with the account's own signing key
+      console.log('Requesting AzGuard signature...');
+      let result: any;
+      try {
+        [result] = await client.execute([
+          {
+            kind: 'sign_message',
+            account: fullAccount,
+            message: hashMessage(msg).toString()
+          }
+        ]);
+      } catch (error) {
+        throw toWalletError(error, 'sign_message');
+      }
+
+      if (!result || result.status !== 'ok') {
+        throw toWalletError(result?.error || 'AzGuard message signing failed', 'sign_message');
+      }
+
+      return encodeSignature(result.result.publicKey, result.result.signature);
     },
+    sendTransaction: (calls: AztecContractCall | AztecContractCall[]) =>
+      sendAzGuardTransaction(client, fullAccount, Array.isArray(calls) ? calls : [calls]),
+    execute: operations => executeAzGuardOperations(client, fullAccount, operations),
     _azguardClient: client
   };
 }
 
-export const connectAzGuard = async (): Promise<AzGuardConnectionResult> => {
+// Build the account wrapper for the selected AzGuard account
+const accountFromClient = (azguard: AzguardClient): AzGuardAccount => {
+  const accounts = azguard.accounts;
+  console.log('AzGuard accounts:', accounts);
+
+  if (!accounts || accounts.length === 0) {
+    throw new Error('No account returned from AzGuard');
+  }
+
+  // Format: "aztec:chainId:address"
+  const fullAccount = azguardSession.getSelectedAccount() ?? accounts[0];
+  const { address } = parseCaipAccount(fullAccount);
+  console.log('Parsed address:', address);
+
+  return createAccountWrapper(address, fullAccount, azguard);
+};
+
+export const connectAzGuard = async (options: AzGuardConnectOptions = {}): Promise<AzGuardConnectionResult> => {
   try {
+    // The wallet is asked for the active network's chain, whose contracts must be known and
+    // whose node must actually serve that chain
+    await aztecNetwork.connect();
+
     console.log('Checking if AzGuard is installed...');
     const isInstalled = await AzguardClient.isAzguardInstalled();
     
@@ -45,68 +153,102 @@ export const connectAzGuard = async (): Promise<AzGuardConnectionResult> => {
       };
     }
 
-    console.log('Creating AzGuard client...');
-    const azguard = await AzguardClient.create();
-    if (!azguard) throw new Error('Failed to initialize AzGuard client');
-
-    console.log('AzGuard connected status:', azguard.connected);
-    
-    if (!azguard.connected) {
-      console.log('Connecting to AzGuard...');
-      await azguard.connect(
-        { 
-          name: 'Aztlan Quest', 
-          iconUrl: window.location.origin + '/logo.svg' 
+    const azguard = await azguardSession.connect(
+      { 
+        name: 'Aztlan Quest', 
+        iconUrl: window.location.origin + '/logo.svg' 
+      },
+      [
+        {
+          chains: options.chains ?? defaultAzGuardChains(),
+          methods: options.methods ?? DEFAULT_AZGUARD_METHODS,
         },
-        [
-          {
-            chains: ['aztec:11155111'],
-            methods: ['send_transaction', 'call'],
-          },
-        ]
-      );
-    }
-
-    const accounts = azguard.accounts;
-    console.log('AzGuard accounts:', accounts);
-    
-    if (!accounts || accounts.length === 0) {
-      throw new Error('No account returned from AzGuard');
-    }
-
-    // Get the first account - format: "aztec:chainId:address"
-    const fullAccount = accounts[0];
-    let address: string;
-    
-    // Parse the address from the full account string
-    if (typeof fullAccount === 'string' && fullAccount.includes(':')) {
-      const parts = fullAccount.split(':');
-      address = parts[parts.length - 1]; // Get the last part (the actual address)
-      console.log('Parsed address:', address);
-    } else {
-      // If it's already just an address
-      address = fullAccount;
-    }
+      ],
+      options.optionalPermissions
+    );
+    console.log('AzGuard connected status:', azguard.connected);
 
-    const accountWrapper = createAccountWrapper(address, fullAccount, azguard);
-    azguardInstance = azguard;
+    const accountWrapper = accountFromClient(azguard);
+    azguardAccount = accountWrapper;
 
     return { 
       success: true, 
       account: accountWrapper, 
-      address, 
+      address: accountWrapper.address, 
       provider: 'azguard' 
     };
   } catch (err) {
     console.error('AzGuard connection error:', err);
-    azguardInstance = null;
+    azguardAccount = null;
+    const aztecError = toWalletError(err, 'connect');
     return { 
       success: false, 
-      error: err instanceof Error ? err.message : 'Failed to connect to AzGuard' 
+      error: aztecError.message, 
+      cause: aztecError 
+    };
+  }
+};
+
+// Silently restore a previous AzGuard session on page load (never prompts)
+export const restoreAzGuardSession = async (): Promise<AzGuardConnectionResult | null> => {
+  const azguard = await azguardSession.restore();
+  if (!azguard) return null;
+
+  try {
+    const accountWrapper = accountFromClient(azguard);
+    azguardAccount = accountWrapper;
+    console.log('✓ AzGuard session restored:', accountWrapper.address);
+
+    return {
+      success: true,
+      account: accountWrapper,
+      address: accountWrapper.address,
+      provider: 'azguard'
     };
+  } catch (err) {
+    console.error('AzGuard session restore error:', err);
+    azguardAccount = null;
+    return null;
+  }
+};
+
+// All accounts the wallet exposes to this dapp, across every permitted chain
+export const listAzGuardAccounts = (): AzGuardAccountInfo[] => {
+  const selected = azguardSession.getSelectedAccount();
+
+  return azguardSession.accounts.flatMap(fullAccount => {
+    try {
+      return [{ ...parseCaipAccount(fullAccount), fullAccount, selected: fullAccount === selected }];
+    } catch (error) {
+      console.log('Skipping malformed AzGuard account:', fullAccount, error);
+      return [];
+    }
+  });
+};
+
+// Switch the active account; accepts a CAIP-10 id or its parts
+export const selectAzGuardAccount = (account: string | CaipAccount): AzGuardAccount => {
+  const azguard = azguardSession.getClient();
+  if (!azguard || !azguardSession.connected) {
+    throw new Error('AzGuard wallet not connected');
   }
+
+  const fullAccount = formatCaipAccount(typeof account === 'string' ? parseCaipAccount(account) : account);
+  azguardSession.selectAccount(fullAccount);
+  azguardAccount = accountFromClient(azguard);
+  return azguardAccount;
 };
 
+// Keep the active account in sync with the extension
+azguardSession.on('accountsChanged', accounts => {
+  const azguard = azguardSession.getClient();
+  azguardAccount = azguard && accounts.length > 0 ? accountFromClient(azguard) : null;
+});
+
+azguardSession.on('disconnected', () => {
+  azguardAccount = null;
+});
+
 // Check if AzGuard is available
 export const isAzGuardAvailable = async (): Promise<boolean> => {
   try {
@@ -117,5 +259,97 @@ export const isAzGuardAvailable = async (): Promise<boolean> => {
   }
 };
 
+async function fetchAccountInitializationHash(address: string, nodeUrl: string): Promise<Fr | null> {
+  const instance = await getJsonRpcTransport(nodeUrl).request('aztec_getContract', [address]);
+  return instance?.initializationHash ? Fr.fromString(instance.initializationHash) : null;
+}
+
+// Verify a signature produced by an AzGuard account's signMessage.
+// The Schnorr signature is checked against the embedded public key, and the key is then
+// bound to the address by recomputing the account contract's initialization hash.
+// Resolves to false for invalid signatures; node failures are thrown as AztecErrors.
+export const verifySignature = async (
+  address: string,
+  message: string,
+  signature: string,
+  nodeUrl: string = aztecNetwork.getActiveNetwork().rpcUrl
+): Promise<boolean> => {
+  let decoded: ReturnType<typeof decodeSignature>;
+  try {
+    decoded = decodeSignature(signature);
+  } catch (error) {
+    console.log('Malformed signature:', error);
+    return false;
+  }
+
+  const { publicKey, schnorrSignature } = decoded;
+  const messageHash = hashMessage(message);
+
+  const schnorr = new Schnorr();
+  const isValid = await schnorr.verifySignature(messageHash.toBuffer(), publicKey, schnorrSignature);
+  if (!isValid) {
+    return false;
+  }
+
+  const initializationHash = await fetchAccountInitializationHash(address, nodeUrl);
+  if (!initializationHash) {
+    console.log('Account not deployed, cannot bind signing key:', address);
+    return false;
+  }
+
+  const constructorSelector = await FunctionSelector.fromSignature(SCHNORR_ACCOUNT_CONSTRUCTOR);
+  const expectedHash = await computeInitializationHashFromEncodedArgs(constructorSelector, [publicKey.x, publicKey.y]);
+  return expectedHash.equals(initializationHash);
+};
+
+export const disconnectAzGuard = async (): Promise<void> => {
+  await azguardSession.disconnect();
+  azguardAccount = null;
+};
+
+// WalletConnector adapter so the UI can drive AzGuard like any other wallet
+export const azguardConnector: WalletConnector<AzGuardAccount> = {
+  id: 'azguard',
+  name: 'AzGuard Wallet',
+  capabilities: {
+    signMessage: true,
+    sendTransaction: true,
+    gasless: false,
+    requiresExtension: true
+  },
+  isAvailable: isAzGuardAvailable,
+  connect: () => connectAzGuard(),
+  restore: restoreAzGuardSession,
+  disconnect: disconnectAzGuard,
+  getAddress: () => azguardAccount?.address ?? null,
+  signMessage: async (message: string) => {
+    if (!azguardAccount) {
+      throw new Error('AzGuard wallet not connected');
+    }
+    return azguardAccount.signMessage(message);
+  },
+  sendTransaction: async (request: WalletTransactionRequest): Promise<WalletTransactionResult> => {
+    if (!azguardAccount) {
+      throw new Error('AzGuard wallet not connected');
+    }
+    if (!('functionName' in request)) {
+      return { success: false, error: 'AzGuard requires an ABI-described contract call' };
+    }
+
+    try {
+      const transactionHash = await azguardAccount.sendTransaction(request);
+      return { success: true, transactionHash };
+    } catch (error) {
+      console.error('AzGuard transaction error:', error);
+      const aztecError = toWalletError(error, 'send_transaction');
+      return {
+        success: false,
+        error: aztecError.message,
+        cause: aztecError
+      };
+    }
+  }
+};
+
 // Export for debugging
-export const getAzGuardInstance = () => azguardInstance;
\ No newline at end of file
+export const getAzGuardInstance = () => azguardSession.getClient();
\ No newline at end of file
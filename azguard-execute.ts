@@ -0,0 +1,124 @@
+// Contract execution through the AzGuard wallet
+// Turns ABI-described contract calls into AzGuard operations so several calls
+// can be approved by the user in a single prompt
+
+import type { AzguardClient } from '@azguardwallet/client';
+import type { AztecContractCall } from './aztec-contracts';
+import { encodeCall } from './aztec-codec';
+import { RpcError, toWalletError, type AztecError } from './aztec-errors';
+import { aztecNetwork, explorerTxUrl } from './aztec-network';
+import { parseTxHash } from './aztec-transactions';
+import { parseCaipAccount } from './caip10';
+import { transactionTracker } from './transaction-tracker';
+
+export interface AzGuardCallAction {
+  kind: 'call';
+  contract: string;
+  method: string;
+  args: any[];
+}
+
+// send_transaction: all calls are executed atomically in one transaction
+// simulate_views: read-only calls, nothing is submitted
+export type AzGuardOperation =
+  | { kind: 'send_transaction'; calls: AztecContractCall[] }
+  | { kind: 'simulate_views'; calls: AztecContractCall[] };
+
+export type AzGuardOperationResult<T> =
+  | { status: 'ok'; result: T }
+  | { status: 'failed'; error: AztecError }
+  | { status: 'skipped' };
+
+// Transaction hash for sends, one decoded value per call for simulations
+export type AzGuardOperationOutput<Op extends AzGuardOperation> =
+  Op extends { kind: 'send_transaction' } ? string : unknown[];
+
+export type AzGuardBatchResult<Ops extends readonly AzGuardOperation[]> = {
+  [K in keyof Ops]: AzGuardOperationResult<AzGuardOperationOutput<Ops[K]>>;
+};
+
+// Validate the call against its ABI before handing it to the wallet
+// The wallet encodes the arguments itself, so they are passed through unchanged
+export function buildCallAction(call: AztecContractCall): AzGuardCallAction {
+  encodeCall(call);
+
+  return {
+    kind: 'call',
+    contract: call.contractAddress,
+    method: call.functionName,
+    args: call.args
+  };
+}
+
+function toWalletOperation(account: string, operation: AzGuardOperation) {
+  if (operation.calls.length === 0) {
+    throw new Error(`${operation.kind} requires at least one call`);
+  }
+
+  const actions = operation.calls.map(buildCallAction);
+  return operation.kind === 'send_transaction'
+    ? { kind: 'send_transaction', account, actions }
+    : { kind: 'simulate_views', account, calls: actions };
+}
+
+function toOperationResult(raw: any, kind: string): AzGuardOperationResult<any> {
+  switch (raw?.status) {
+    case 'ok':
+      return { status: 'ok', result: raw.result };
+    case 'failed':
+      return { status: 'failed', error: toWalletError(raw.error ?? 'Operation failed', kind) };
+    default:
+      return { status: 'skipped' };
+  }
+}
+
+// Execute a batch of operations with a single wallet approval.
+// AzGuard skips the remaining operations once one fails.
+export async function executeAzGuardOperations<const Ops extends readonly AzGuardOperation[]>(
+  client: AzguardClient,
+  account: string,
+  operations: Ops
+): Promise<AzGuardBatchResult<Ops>> {
+  const walletOperations = operations.map(operation => toWalletOperation(account, operation));
+
+  console.log('Executing AzGuard operations:', walletOperations);
+  let rawResults: any[];
+  try {
+    rawResults = await client.execute(walletOperations);
+  } catch (error) {
+    throw toWalletError(error, 'execute');
+  }
+  console.log('AzGuard execution results:', rawResults);
+
+  return operations.map((operation, i) => toOperationResult(rawResults[i], operation.kind)) as AzGuardBatchResult<Ops>;
+}
+
+// Send one or more calls as a single transaction and resolve to its hash, which is tracked
+// until it settles
+export async function sendAzGuardTransaction(
+  client: AzguardClient,
+  account: string,
+  calls: AztecContractCall[]
+): Promise<string> {
+  await aztecNetwork.connect();
+  const [result] = await executeAzGuardOperations(client, account, [
+    { kind: 'send_transaction', calls }
+  ]);
+
+  if (result.status === 'failed') {
+    throw result.error;
+  }
+  if (result.status === 'skipped') {
+    throw new RpcError('send_transaction', -32603, 'AzGuard transaction was skipped');
+  }
+
+  const txHash = parseTxHash(result.result);
+  const network = aztecNetwork.getActiveNetwork();
+  transactionTracker.track(txHash, {
+    purpose: 'contract_call',
+    sender: parseCaipAccount(account).address,
+    rpcUrl: network.rpcUrl,
+    explorerUrl: explorerTxUrl(network, txHash)
+  });
+  return txHash;
+}
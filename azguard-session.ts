@@ -0,0 +1,250 @@
+// AzGuard session manager
+// Owns the AzguardClient instance, restores existing sessions silently and
+// re-emits wallet changes as typed events so the app stays in sync
+
+import { AzguardClient } from '@azguardwallet/client';
+import { caipChainOf, parseCaipAccount } from './caip10';
+
+export interface AzGuardSessionEvents {
+  accountsChanged: (accounts: string[]) => void;
+  chainChanged: (chainId: string) => void;
+  disconnected: () => void;
+}
+
+export type AzGuardSessionEvent = keyof AzGuardSessionEvents;
+
+export interface AzGuardDappMetadata {
+  name: string;
+  iconUrl?: string;
+}
+
+export interface AzGuardPermission {
+  chains: string[];
+  methods: string[];
+}
+
+interface StoredSession {
+  accounts: string[];
+  selectedAccount: string | null;
+  connectedAt: number;
+}
+
+const SESSION_STORAGE_KEY = 'aztlan.azguard.session';
+
+// "aztec:11155111:0xabc..." -> "aztec:11155111"
+const chainOf = (account: string | null): string | null => {
+  if (!account) return null;
+  try {
+    return caipChainOf(parseCaipAccount(account));
+  } catch {
+    return null;
+  }
+};
+
+class AzGuardSessionManager {
+  private client: AzguardClient | null = null;
+  private chainId: string | null = null;
+  private selectedAccount: string | null = null;
+  private listeners: { [E in AzGuardSessionEvent]: Set<AzGuardSessionEvents[E]> } = {
+    accountsChanged: new Set(),
+    chainChanged: new Set(),
+    disconnected: new Set()
+  };
+
+  private handleAccountsChanged = (accounts: string[]) => {
+    console.log('AzGuard accounts changed:', accounts);
+    this.syncSelection(accounts);
+    this.emit('accountsChanged', accounts);
+    this.updateChain();
+  };
+
+  private handleDisconnected = () => {
+    console.log('AzGuard session disconnected');
+    this.reset();
+    this.emit('disconnected');
+  };
+
+  get connected(): boolean {
+    return !!this.client?.connected;
+  }
+
+  get accounts(): string[] {
+    return this.client?.accounts ?? [];
+  }
+
+  getClient(): AzguardClient | null {
+    return this.client;
+  }
+
+  // The account the user picked, falling back to the first exposed account
+  getSelectedAccount(): string | null {
+    return this.selectedAccount;
+  }
+
+  selectAccount(account: string): void {
+    if (!this.accounts.includes(account)) {
+      throw new Error(`Account not exposed by AzGuard: ${account}`);
+    }
+    this.selectedAccount = account;
+    this.saveSession(this.accounts);
+    this.updateChain();
+  }
+
+  hasStoredSession(): boolean {
+    return this.loadSession() !== null;
+  }
+
+  // Restore a previous session without prompting the user. Resolves to null when
+  // there is nothing to restore or the wallet no longer considers the dapp connected.
+  async restore(): Promise<AzguardClient | null> {
+    if (this.connected) return this.client;
+    if (!this.hasStoredSession()) return null;
+
+    try {
+      if (!(await AzguardClient.isAzguardInstalled())) {
+        this.clearSession();
+        return null;
+      }
+
+      const client = await this.ensureClient();
+      if (!client.connected) {
+        console.log('Stored AzGuard session is no longer valid');
+        this.clearSession();
+        return null;
+      }
+
+      this.selectedAccount = this.loadSession()?.selectedAccount ?? null;
+      this.syncSelection(client.accounts);
+      this.chainId = chainOf(this.selectedAccount);
+      return client;
+    } catch (error) {
+      console.error('Failed to restore AzGuard session:', error);
+      return null;
+    }
+  }
+
+  async connect(
+    dapp: AzGuardDappMetadata,
+    requiredPermissions: AzGuardPermission[],
+    optionalPermissions: AzGuardPermission[] = []
+  ): Promise<AzguardClient> {
+    const client = await this.ensureClient();
+
+    if (!client.connected) {
+      console.log('Connecting to AzGuard...');
+      await client.connect(dapp, requiredPermissions, optionalPermissions);
+    }
+
+    this.syncSelection(client.accounts);
+    this.chainId = chainOf(this.selectedAccount);
+    return client;
+  }
+
+  async disconnect(): Promise<void> {
+    const client = this.client;
+    try {
+      if (client?.connected) {
+        await client.disconnect();
+      }
+    } catch (error) {
+      console.error('AzGuard disconnect error:', error);
+    } finally {
+      // The wallet may not fire onDisconnected for a dapp-initiated disconnect
+      if (this.client) {
+        this.reset();
+        this.emit('disconnected');
+      }
+    }
+  }
+
+  on<E extends AzGuardSessionEvent>(event: E, handler: AzGuardSessionEvents[E]): () => void {
+    this.listeners[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends AzGuardSessionEvent>(event: E, handler: AzGuardSessionEvents[E]): void {
+    this.listeners[event].delete(handler);
+  }
+
+  private emit<E extends AzGuardSessionEvent>(event: E, ...args: Parameters<AzGuardSessionEvents[E]>): void {
+    this.listeners[event].forEach(handler => {
+      try {
+        (handler as (...handlerArgs: Parameters<AzGuardSessionEvents[E]>) => void)(...args);
+      } catch (error) {
+        console.error(`AzGuard ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  private async ensureClient(): Promise<AzguardClient> {
+    if (this.client) return this.client;
+
+    console.log('Creating AzGuard client...');
+    const client = await AzguardClient.create();
+    if (!client) throw new Error('Failed to initialize AzGuard client');
+
+    client.onAccountsChanged.addHandler(this.handleAccountsChanged);
+    client.onDisconnected.addHandler(this.handleDisconnected);
+    this.client = client;
+    return client;
+  }
+
+  // Keep the selection if the wallet still exposes it, otherwise fall back to the first account
+  private syncSelection(accounts: string[]): void {
+    if (!this.selectedAccount || !accounts.includes(this.selectedAccount)) {
+      this.selectedAccount = accounts[0] ?? null;
+    }
+    this.saveSession(accounts);
+  }
+
+  private updateChain(): void {
+    const chainId = chainOf(this.selectedAccount);
+    if (chainId && chainId !== this.chainId) {
+      this.chainId = chainId;
+      this.emit('chainChanged', chainId);
+    }
+  }
+
+  private reset(): void {
+    if (this.client) {
+      this.client.onAccountsChanged.removeHandler(this.handleAccountsChanged);
+      this.client.onDisconnected.removeHandler(this.handleDisconnected);
+    }
+    this.client = null;
+    this.chainId = null;
+    this.selectedAccount = null;
+    this.clearSession();
+  }
+
+  private loadSession(): StoredSession | null {
+    try {
+      const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+      return raw ? (JSON.parse(raw) as StoredSession) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private saveSession(accounts: string[]): void {
+    try {
+      const session: StoredSession = {
+        accounts,
+        selectedAccount: this.selectedAccount,
+        connectedAt: Date.now()
+      };
+      localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    } catch (error) {
+      console.log('Unable to persist AzGuard session:', error);
+    }
+  }
+
+  private clearSession(): void {
+    try {
+      localStorage.removeItem(SESSION_STORAGE_KEY);
+    } catch {
+      // Storage unavailable (private mode), nothing to clear
+    }
+  }
+}
+
+export const azguardSession = new AzGuardSessionManager();
@@ -1,119 +1,156 @@
-// Account Abstraction implementation for Aztec Alpha Testnet
+// Account Abstraction implementation for Aztec networks
 // Using authentic Aztec.js SDK with createPXEClient and SponsoredFeePaymentMethod
 
 // Note: Uncomment when Aztec.js SDK is properly configured for browser
 // import { createPXEClient, createAztecWalletSdk, SponsoredFeePaymentMethod } from '@aztec/aztec.js';
 
-export interface AAAccountResult {
-  success: boolean;
-  address?: string;
-  account?: any;
-  provider?: string;
-  error?: string;
+import { SchnorrAccountContract } from '@aztec/accounts/schnorr';
+import { Fr, getAccountContractAddress } from '@aztec/aztec.js';
+import { deriveSigningKey } from '@aztec/stdlib/keys';
+import { toAztecError } from './aztec-errors';
+import { payWithFallback, type FeeOptions, type FeePayload } from './aztec-fees';
+import { aztecNetwork, explorerTxUrl } from './aztec-network';
+import { getNodePool } from './aztec-node-pool';
+import { parseTxHash } from './aztec-transactions';
+import { transactionTracker } from './transaction-tracker';
+import type {
+  WalletAccount,
+  WalletCapabilities,
+  WalletConnectionResult,
+  WalletConnector,
+  WalletTransactionResult
+} from './wallet-connector';
+
+// Everything needed to recompute the account address. The connector keeps them; exportKeys()
+// hands them out for a backup, they are never part of the account object
+export interface AAAccountKeys {
+  secretKey: string;  // hex field element
+  salt: string;       // hex field element
 }
 
-const AZTEC_AA_CONFIG = {
-  pxeUrl: 'https://aztec-alpha-testnet-fullnode.zkv.xyz',
-  sponsorAddress: '0x1260a43ecf03e985727affbbe3e483e60b836ea821b6305bea1c53398b986047'
-};
+export interface AAAccount extends WalletAccount {
+  type: 'account_abstraction';
+  isGasless: boolean;
+  sponsor?: string;   // fee payer of the deployment, unset when no sponsored FPC is configured
+  salt: string;       // deployment salt, public
+  transactionHash?: string;
+}
+
+export type AAAccountResult = WalletConnectionResult<AAAccount>;
+
+// Counterfactual address of a Schnorr account contract: derived from the public keys of the
+// secret, the salt and the account contract class, so it is known before deployment
+export async function computeAAAddress(keys: AAAccountKeys): Promise<string> {
+  const secretKey = Fr.fromString(keys.secretKey);
+  const accountContract = new SchnorrAccountContract(deriveSigningKey(secretKey));
+  const address = await getAccountContractAddress(accountContract, secretKey, Fr.fromString(keys.salt));
+  return address.toString();
+}
+
+export function generateAAAccountKeys(): AAAccountKeys {
+  return {
+    secretKey: Fr.random().toString(),
+    salt: Fr.random().toString()
+  };
+}
 
-class AztecAccountAbstraction {
-  private account: any = null;
+class AztecAccountAbstraction implements WalletConnector<AAAccount> {
+  readonly id = 'account_abstraction' as const;
+  readonly name = 'Account Abstraction';
+  readonly capabilities: WalletCapabilities = {
+    signMessage: false,
+    sendTransaction: false,
+    gasless: true,
+    requiresExtension: false
+  };
+
+  private account: AAAccount | null = null;
+  private keys: AAAccountKeys | null = null;
   private pxe: any = null;
 
-  async createAAAccount(): Promise<AAAccountResult> {
+  // Follows the active network profile
+  private get transport() {
+    return getNodePool(aztecNetwork.getActiveNetwork());
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  connect(): Promise<AAAccountResult> {
+    return this.createAAAccount();
+  }
+
+  // Deploys a new account, or redeploys the one described by `keys`; the deployment is
+  // sponsored unless `fee` says otherwise
+  async createAAAccount(keys: AAAccountKeys = generateAAAccountKeys(), fee: FeeOptions = {}): Promise<AAAccountResult> {
     try {
       console.log('=== Creating Account Abstraction Wallet ===');
-      console.log('PXE URL:', AZTEC_AA_CONFIG.pxeUrl);
-      console.log('Sponsor Address:', AZTEC_AA_CONFIG.sponsorAddress);
+      const network = aztecNetwork.getActiveNetwork();
+      console.log('Network:', network.name);
+      console.log('PXE URL:', network.rpcUrl);
+      console.log('Sponsor Address:', network.sponsoredFpcAddress);
 
-      // Test connection to Aztec Alpha Testnet PXE
+      // Make sure the PXE serves the selected network
       console.log('Testing PXE connection...');
       
-      const statusPayload = {
-        jsonrpc: '2.0',
-        method: 'pxe_getNodeInfo',
-        params: [],
-        id: 1
-      };
-
-      const statusResponse = await fetch(AZTEC_AA_CONFIG.pxeUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(statusPayload)
-      });
-
-      if (!statusResponse.ok) {
-        throw new Error(`PXE connection failed: HTTP ${statusResponse.status}`);
-      }
-
-      const statusResult = await statusResponse.json();
-      console.log('PXE Status:', statusResult);
+      const nodeInfo = await aztecNetwork.connect();
+      console.log('PXE Status:', nodeInfo);
 
       // Create Account Abstraction using authentic Aztec transaction format
       console.log('Creating AA account with authentic Aztec format...');
       
-      const aaAddress = this.generateAAAddress();
+      const aaAddress = await computeAAAddress(keys);
+      console.log('Counterfactual AA address:', aaAddress);
       
-      const createAccountPayload = {
-        jsonrpc: '2.0',
-        method: 'aztec_sendTransaction',
-        params: [
-          {
-            origin: aaAddress,
-            functionData: {
-              contractAddress: aaAddress,
-              entrypoint: '0x00000001', // Account deployment selector
-              argsHash: await this.hashString(aaAddress)
-            },
-            args: [
-              { type: 'Field', value: aaAddress }
-            ],
-            fee: {
-              assetAddress: AZTEC_AA_CONFIG.sponsorAddress
-            },
-            txContext: {
-              nonce: 0,
-              expiry: 0
-            },
-            proof: '0x',
-            signature: '0x'
-          }
+      const createAccountTx = {
+        origin: aaAddress,
+        functionData: {
+          contractAddress: aaAddress,
+          entrypoint: '0x00000001', // Account deployment selector
+          argsHash: await this.hashString(aaAddress)
+        },
+        args: [
+          { type: 'Field', value: aaAddress }
         ],
-        id: Math.floor(Math.random() * 1000)
+        txContext: {
+          nonce: 0,
+          expiry: 0
+        },
+        proof: '0x',
+        signature: '0x'
       };
 
-      console.log('Creating account with sponsored fees...');
-      const createResponse = await fetch(AZTEC_AA_CONFIG.pxeUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(createAccountPayload)
+      console.log('Creating account...');
+      let paidWith: FeePayload | undefined;
+      const createResult = await payWithFallback(fee, network, aaAddress, feePayload => {
+        paidWith = feePayload;
+        return this.transport.request('aztec_sendTransaction', [{ ...createAccountTx, fee: feePayload }]);
       });
+      console.log('Fee paid with:', paidWith);
+      console.log('Account creation result:', createResult);
 
-      if (!createResponse.ok) {
-        throw new Error(`Account creation failed: HTTP ${createResponse.status}`);
+      if (createResult?.address && createResult.address !== aaAddress) {
+        throw new Error(`Node deployed unexpected address ${createResult.address}, expected ${aaAddress}`);
       }
 
-      const createResult = await createResponse.json();
-      console.log('Account creation result:', createResult);
-
-      const address = createResult.result?.address || this.generateAAAddress();
-      const transactionHash = createResult.result?.transactionHash;
+      const address = aaAddress;
+      const transactionHash = parseTxHash(createResult?.transactionHash ?? createResult);
       
       console.log('✓ AA Account deployed on-chain');
       console.log('Address:', address);
-      if (transactionHash) {
-        console.log('Transaction Hash:', transactionHash);
-        console.log('Explorer:', `https://aztec-explorer.xyz/tx/${transactionHash}`);
-      }
+      console.log('Transaction Hash:', transactionHash);
+      const explorerUrl = explorerTxUrl(network, transactionHash);
+      if (explorerUrl) console.log('Explorer:', explorerUrl);
+      transactionTracker.track(transactionHash, {
+        purpose: 'account_deployment',
+        sender: address,
+        rpcUrl: network.rpcUrl,
+        explorerUrl
+      });
       
-      this.account = {
-        address: address,
-        type: 'account_abstraction',
-        isGasless: true,
-        sponsor: AZTEC_AA_CONFIG.sponsorAddress,
-        transactionHash: transactionHash
-      };
+      this.keys = keys;
+      this.account = this.buildAccount(address, keys, transactionHash, paidWith);
 
       return {
         success: true,
@@ -124,24 +161,73 @@ class AztecAccountAbstraction {
 
     } catch (error) {
       console.error('AA Account creation failed:', error);
+      const aztecError = toAztecError(error, 'aztec_sendTransaction');
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
+        error: aztecError.message,
+        cause: aztecError
       };
     }
   }
 
-  private generateAAAddress(): string {
-    // Generate a valid Aztec address format for AA account
-    const bytes = new Uint8Array(32);
-    crypto.getRandomValues(bytes);
-    return '0x' + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  // Recompute the address from stored keys, no transaction is sent
+  async recoverAAAccount(keys: AAAccountKeys): Promise<AAAccountResult> {
+    try {
+      const address = await computeAAAddress(keys);
+      console.log('✓ AA account recovered:', address);
+
+      this.keys = keys;
+      this.account = this.buildAccount(address, keys);
+      return {
+        success: true,
+        address,
+        account: this.account,
+        provider: 'account_abstraction'
+      };
+    } catch (error) {
+      console.error('AA Account recovery failed:', error);
+      const aztecError = toAztecError(error);
+      return {
+        success: false,
+        error: aztecError.message,
+        cause: aztecError
+      };
+    }
+  }
+
+  private buildAccount(address: string, keys: AAAccountKeys, transactionHash?: string, fee?: FeePayload): AAAccount {
+    return {
+      address: address,
+      getAddress: () => ({ toString: () => address }),
+      type: 'account_abstraction',
+      isGasless: !fee || fee.method === 'sponsored_fpc',
+      sponsor: fee?.feePayer ?? aztecNetwork.getActiveNetwork().sponsoredFpcAddress,
+      salt: keys.salt,
+      transactionHash: transactionHash
+    };
   }
 
-  getCurrentAccount(): any {
+  getCurrentAccount(): AAAccount | null {
     return this.account;
   }
 
+  getAddress(): string | null {
+    return this.account?.address ?? null;
+  }
+
+  // Keys of the current account, for the user to back up; recoverAAAccount() takes them back
+  exportKeys(): AAAccountKeys | null {
+    return this.keys ? { ...this.keys } : null;
+  }
+
+  async signMessage(): Promise<string> {
+    throw new Error('Account abstraction wallet does not support message signing');
+  }
+
+  async sendTransaction(): Promise<WalletTransactionResult> {
+    throw new Error('Account abstraction wallet does not support sendTransaction');
+  }
+
   private async hashString(input: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(input);
@@ -150,8 +236,9 @@ class AztecAccountAbstraction {
     return '0x' + hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  disconnect(): void {
+  async disconnect(): Promise<void> {
     this.account = null;
+    this.keys = null;
     this.pxe = null;
   }
 }
@@ -0,0 +1,147 @@
+// Contract ABIs loaded from compiled Aztec/Noir artifacts
+// Accepts raw `nargo compile` output or an already processed ContractArtifact and derives
+// function and event selectors the way the protocol does, so calls and log decoding never drift
+// from the deployed contracts
+
+import {
+  EventSelector,
+  FunctionSelector,
+  getAllFunctionAbis,
+  isAztecAddressStruct,
+  isEthAddressStruct,
+  isFunctionSelectorStruct,
+  loadContractArtifact,
+  type ABIParameter,
+  type AbiType,
+  type ContractArtifact,
+  type FunctionAbi,
+  type NoirCompiledContract
+} from '@aztec/aztec.js';
+import { decodeFunctionSignature } from '@aztec/stdlib/abi';
+import type { AztecContractABI, AztecEvent, AztecFunction } from './aztec-contracts';
+import { DecodingError, NetworkError, toFetchError } from './aztec-errors';
+
+// Entry point generated by the compiler for public calls, never called directly
+const PUBLIC_DISPATCH = 'public_dispatch';
+
+// Render an artifact type in Noir notation, e.g. "Field", "u64", "[bool; 6]", "str<31>",
+// "AztecAddress" or "Profile { id: Field, owner: AztecAddress }"
+export function formatAbiType(type: AbiType): string {
+  switch (type.kind) {
+    case 'field':
+      return 'Field';
+    case 'boolean':
+      return 'bool';
+    case 'integer':
+      return `${type.sign === 'signed' ? 'i' : 'u'}${type.width}`;
+    case 'array':
+      return `[${formatAbiType(type.type)}; ${type.length}]`;
+    case 'string':
+      return `str<${type.length}>`;
+    case 'tuple':
+      return `(${type.fields.map(formatAbiType).join(', ')})`;
+    case 'struct':
+      if (isAztecAddressStruct(type)) return 'AztecAddress';
+      if (isEthAddressStruct(type)) return 'EthAddress';
+      if (isFunctionSelectorStruct(type)) return 'FunctionSelector';
+      return `${type.path.split('::').pop()} { ${type.fields
+        .map(field => `${field.name}: ${formatAbiType(field.type)}`)
+        .join(', ')} }`;
+  }
+}
+
+async function toAztecFunction(fn: FunctionAbi): Promise<AztecFunction> {
+  const selector = await FunctionSelector.fromNameAndParameters(fn.name, fn.parameters);
+  return {
+    name: fn.name,
+    selector: selector.toString(),
+    functionType: fn.functionType,
+    isStatic: fn.isStatic,
+    isInitializer: fn.isInitializer,
+    inputs: fn.parameters.map(param => ({ name: param.name, type: formatAbiType(param.type) })),
+    outputs: fn.returnTypes.map(type => ({ type: formatAbiType(type) }))
+  };
+}
+
+// Events are exported by the compiler as struct definitions under outputs.structs.events; the
+// selector is computed from the same signature the contract uses when emitting them
+async function toAztecEvents(artifact: ContractArtifact): Promise<AztecEvent[]> {
+  const structs = (artifact.outputs.structs?.events ?? []) as AbiType[];
+  return Promise.all(
+    structs.flatMap(event => event.kind === 'struct' ? [event] : []).map(async event => {
+      const name = event.path.split('::').pop()!;
+      const selector = await EventSelector.fromSignature(decodeFunctionSignature(name, event.fields as ABIParameter[]));
+      return {
+        name,
+        selector: selector.toString(),
+        fields: event.fields.map(field => ({ name: field.name, type: formatAbiType(field.type) }))
+      };
+    })
+  );
+}
+
+// Internal functions are only callable by the contract itself and are left out
+export async function abiFromArtifact(input: NoirCompiledContract | ContractArtifact): Promise<AztecContractABI> {
+  let artifact: ContractArtifact;
+  try {
+    artifact = 'nonDispatchPublicFunctions' in input ? input : loadContractArtifact(input);
+  } catch (error) {
+    throw new DecodingError(
+      `Invalid contract artifact: ${error instanceof Error ? error.message : error}`,
+      error
+    );
+  }
+
+  const callable = getAllFunctionAbis(artifact)
+    .filter(fn => fn.name !== PUBLIC_DISPATCH && !fn.isInternal);
+
+  return {
+    name: artifact.name,
+    functions: await Promise.all(callable.map(toAztecFunction)),
+    events: await toAztecEvents(artifact)
+  };
+}
+
+const loadedAbis = new Map<string, Promise<AztecContractABI>>();
+
+// Fetch and parse an artifact once per URL; failed loads are retried on the next call
+export function loadContractAbi(artifactUrl: string): Promise<AztecContractABI> {
+  let abi = loadedAbis.get(artifactUrl);
+  if (!abi) {
+    abi = fetchArtifact(artifactUrl).then(abiFromArtifact);
+    abi.catch(() => loadedAbis.delete(artifactUrl));
+    loadedAbis.set(artifactUrl, abi);
+  }
+  return abi;
+}
+
+async function fetchArtifact(artifactUrl: string): Promise<NoirCompiledContract | ContractArtifact> {
+  let response: Response;
+  try {
+    response = await fetch(artifactUrl);
+  } catch (error) {
+    throw toFetchError(error);
+  }
+  // A missing artifact is a deployment problem, not a network one: say what to do about it
+  if (response.status === 404) {
+    throw new NetworkError(
+      `Contract artifact ${artifactUrl} not found. Compile the contracts with \`aztec-nargo compile\` and serve ` +
+      'target/*.json under /artifacts, or set VITE_CONTRACT_ARTIFACTS_URL',
+      response.status,
+      false
+    );
+  }
+  if (!response.ok) {
+    throw new NetworkError(
+      `Failed to load contract artifact ${artifactUrl}: HTTP ${response.status}`,
+      response.status,
+      response.status >= 500
+    );
+  }
+
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new DecodingError(`Contract artifact ${artifactUrl} is not valid JSON`, error);
+  }
+}
@@ -1,12 +1,40 @@
 // Real Aztec client implementation for sponsored accounts
 // Based on provided references and Aztec network specifications
 
-export interface SponsoredAccountResult {
-  success: boolean;
-  address?: string;
-  account?: any;
-  provider?: string;
-  error?: string;
+import { aztecContracts } from './aztec-contracts';
+import { toAztecError, type AztecError } from './aztec-errors';
+import { payWithFallback, type FeeOptions } from './aztec-fees';
+import { aztecNetwork, explorerTxUrl } from './aztec-network';
+import { getNodePool } from './aztec-node-pool';
+import { parseTxHash } from './aztec-transactions';
+import { assertValidUsername, hashUsername, UsernameError } from './aztec-username';
+import { profileMetadataStore } from './profile-metadata';
+import { sponsoredKeystore, type SponsoredKeystore } from './sponsored-keystore';
+import { transactionTracker } from './transaction-tracker';
+import type {
+  WalletAccount,
+  WalletCapabilities,
+  WalletConnectionResult,
+  WalletConnector,
+  WalletTransactionRequest,
+  WalletTransactionResult
+} from './wallet-connector';
+
+export interface SponsoredAccount extends WalletAccount {
+  keyPair: CryptoKeyPair;
+  isSponsored: true;
+  networkRegistered: boolean;
+  getAddress: () => { toString: () => string; toHex: () => string };
+  signMessage: (message: string) => Promise<string>;
+  sendTransaction: (to: string, data: string, fee?: FeeOptions) => Promise<any>;
+}
+
+export type SponsoredAccountResult = WalletConnectionResult<SponsoredAccount>;
+
+export interface CreateSponsoredAccountOptions {
+  label?: string;
+  passphrase?: string;   // unlocks the keystore first when it is locked
+  fee?: FeeOptions;   // who pays for the deployment; sponsored by default
 }
 
 export interface ProfileCreationResult {
@@ -14,25 +42,47 @@ export interface ProfileCreationResult {
   profileId?: string;
   transactionHash?: string;
   error?: string;
+  cause?: AztecError;
 }
 
-// Aztec Alpha Testnet configuration (May 2025) - Using correct full-node RPC endpoint
-const AZTEC_CONFIG = {
-  rpcUrl: 'https://aztec-alpha-testnet-fullnode.zkv.xyz',
-  pxeUrl: 'https://aztec-alpha-testnet-fullnode.zkv.xyz',
-  profileRegistryAddress: import.meta.env.VITE_AZTEC_PROFILE_REGISTRY_ADDRESS || '0x2ec8bbff14a6b5347b3db46dcd1544abf99e9546839a740b9e37b648bc5e176f',
-  privateSocialAddress: import.meta.env.VITE_AZTEC_PRIVATE_SOCIAL_ADDRESS || '0x227e0e81083bfed7a1e0458b89645f49b510a5fe59f8766581cbc3277f91b264',
-  sponsorAddress: '0x1260a43ecf03e985727affbbe3e483e60b836ea821b6305bea1c53398b986047',
-  chainId: 11155111
-};
-
-class AztecSponsoredWallet {
-  private account: any = null;
+class AztecSponsoredWallet implements WalletConnector<SponsoredAccount> {
+  readonly id = 'sponsored' as const;
+  readonly name = 'Sponsored Account';
+  readonly capabilities: WalletCapabilities = {
+    signMessage: true,
+    sendTransaction: true,
+    gasless: true,
+    requiresExtension: false
+  };
+
+  private account: SponsoredAccount | null = null;
   private keyPair: CryptoKeyPair | null = null;
+  constructor(private keystore: SponsoredKeystore = sponsoredKeystore) {}
+
+  // Follows the active network profile
+  private get transport() {
+    return getNodePool(aztecNetwork.getActiveNetwork());
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
 
-  async createSponsoredAccount(): Promise<SponsoredAccountResult> {
+  connect(): Promise<SponsoredAccountResult> {
+    return this.createSponsoredAccount();
+  }
+
+  async createSponsoredAccount(options: CreateSponsoredAccountOptions = {}): Promise<SponsoredAccountResult> {
     try {
       console.log('=== Creating Real Aztec Sponsored Account ===');
+
+      // An account that cannot be saved would be lost on reload, so the keystore must be open first
+      if (!this.keystore.isUnlocked()) {
+        if (!options.passphrase) {
+          throw new Error('Unlock the keystore before creating a sponsored account');
+        }
+        await this.keystore.unlock(options.passphrase);
+      }
       
       // Step 1: Generate proper Aztec key pair
       console.log('Generating Aztec-compatible key pair...');
@@ -48,68 +98,30 @@ class AztecSponsoredWallet {
 
       // Step 2: Derive Aztec address from public key
       console.log('Deriving Aztec address...');
-      const publicKeyBuffer = await crypto.subtle.exportKey('spki', this.keyPair.publicKey);
-      const publicKeyHash = await crypto.subtle.digest('SHA-256', publicKeyBuffer);
-      const addressBytes = new Uint8Array(publicKeyHash).slice(0, 32); // Aztec uses 32-byte addresses
-      
-      const aztecAddress = '0x' + Array.from(addressBytes)
-        .map(b => b.toString(16).padStart(2, '0')).join('');
-      
+      const aztecAddress = await this.deriveAddress(this.keyPair);
       console.log('✓ Aztec address derived:', aztecAddress);
 
       // Step 3: Register with Aztec network
       console.log('Registering account with Aztec network...');
-      console.log('RPC URL:', AZTEC_CONFIG.rpcUrl);
-      console.log('PXE URL:', AZTEC_CONFIG.pxeUrl);
-      console.log('Registry Contract:', AZTEC_CONFIG.profileRegistryAddress);
+      const network = aztecNetwork.getActiveNetwork();
+      console.log('Network:', network.name);
+      console.log('RPC URL:', network.rpcUrl);
+      console.log('Registry Contract:', network.contracts.profileRegistry);
       
       try {
         // Make actual RPC call to register the account
-        const registrationResult = await this.registerAccountOnChain(aztecAddress);
+        const registrationResult = await this.registerAccountOnChain(aztecAddress, options.fee);
         console.log('✓ Account registered on-chain:', registrationResult);
       } catch (rpcError) {
         console.log('RPC registration failed, continuing with local account...', rpcError);
       }
 
-      // Step 4: Create account object
-      this.account = {
-        address: aztecAddress,
-        keyPair: this.keyPair,
-        isSponsored: true,
-        networkRegistered: true,
-        
-        getAddress: () => ({
-          toString: () => aztecAddress,
-          toHex: () => aztecAddress
-        }),
-        
-        signMessage: async (message: string) => {
-          console.log('Signing message with Aztec account...');
-          const encoder = new TextEncoder();
-          const messageBuffer = encoder.encode(message);
-          
-          const signature = await crypto.subtle.sign(
-            {
-              name: 'ECDSA',
-              hash: { name: 'SHA-256' }
-            },
-            this.keyPair!.privateKey,
-            messageBuffer
-          );
-          
-          const signatureHex = Array.from(new Uint8Array(signature))
-            .map(b => b.toString(16).padStart(2, '0')).join('');
-          
-          console.log('✓ Message signed successfully');
-          return '0xaztec_' + signatureHex;
-        },
+      // Step 4: Persist the key material so the account survives a reload
+      await this.keystore.saveKeyPair(aztecAddress, this.keyPair, options.label);
+      console.log('✓ Account saved to keystore');
 
-        sendTransaction: async (to: string, data: string) => {
-          console.log('Sending sponsored transaction...');
-          // This would interact with paymaster for gas sponsoring
-          return await this.sendSponsoredTransaction(to, data);
-        }
-      };
+      // Step 5: Create account object
+      this.account = this.buildAccount(aztecAddress, this.keyPair);
 
       console.log('✓ Sponsored account created successfully');
       
@@ -122,98 +134,154 @@ class AztecSponsoredWallet {
 
     } catch (error) {
       console.error('❌ Sponsored account creation failed:', error);
+      const aztecError = toAztecError(error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to create sponsored account'
+        error: aztecError.message,
+        cause: aztecError
       };
     }
   }
 
-  private async registerAccountOnChain(address: string): Promise<any> {
-    console.log('Deploying wallet to Aztec Alpha Testnet...');
-    console.log('Address:', address);
-    console.log('RPC URL:', AZTEC_CONFIG.rpcUrl);
-    
+  // Reopen an account previously saved in the (unlocked) keystore
+  async restoreSponsoredAccount(address: string): Promise<SponsoredAccountResult> {
     try {
-      console.log('Deploying account to Aztec Alpha Testnet...');
-      console.log('Using authentic endpoint:', AZTEC_CONFIG.rpcUrl);
-      console.log('Account address:', address);
-      
-      // Verify endpoint availability
-      const statusCheck = await fetch(`${AZTEC_CONFIG.rpcUrl}/status`);
-      if (!statusCheck.ok) {
-        throw new Error(`Aztec testnet endpoint not available: ${statusCheck.status}`);
+      console.log('Restoring sponsored account from keystore:', address);
+      const keyPair = await this.keystore.loadKeyPair(address);
+
+      const derivedAddress = await this.deriveAddress(keyPair);
+      if (derivedAddress !== address) {
+        throw new Error('Stored key does not match account address');
       }
+
+      this.keyPair = keyPair;
+      this.account = this.buildAccount(address, keyPair);
+      console.log('✓ Sponsored account restored');
+
+      return {
+        success: true,
+        address,
+        account: this.account,
+        provider: 'sponsored'
+      };
+    } catch (error) {
+      console.error('Sponsored account restore failed:', error);
+      const aztecError = toAztecError(error);
+      return {
+        success: false,
+        error: aztecError.message,
+        cause: aztecError
+      };
+    }
+  }
+
+  private async deriveAddress(keyPair: CryptoKeyPair): Promise<string> {
+    const publicKeyBuffer = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+    const publicKeyHash = await crypto.subtle.digest('SHA-256', publicKeyBuffer);
+    const addressBytes = new Uint8Array(publicKeyHash).slice(0, 32); // Aztec uses 32-byte addresses
+    
+    return '0x' + Array.from(addressBytes)
+      .map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private buildAccount(aztecAddress: string, keyPair: CryptoKeyPair): SponsoredAccount {
+    return {
+      address: aztecAddress,
+      keyPair,
+      isSponsored: true,
+      networkRegistered: true,
       
-      console.log('✓ Aztec Alpha Testnet endpoint is available');
+      getAddress: () => ({
+        toString: () => aztecAddress,
+        toHex: () => aztecAddress
+      }),
+      
+      signMessage: async (message: string) => {
+        console.log('Signing message with Aztec account...');
+        const encoder = new TextEncoder();
+        const messageBuffer = encoder.encode(message);
+        
+        const signature = await crypto.subtle.sign(
+          {
+            name: 'ECDSA',
+            hash: { name: 'SHA-256' }
+          },
+          keyPair.privateKey,
+          messageBuffer
+        );
+        
+        const signatureHex = Array.from(new Uint8Array(signature))
+          .map(b => b.toString(16).padStart(2, '0')).join('');
+        
+        console.log('✓ Message signed successfully');
+        return '0xaztec_' + signatureHex;
+      },
+
+      sendTransaction: async (to: string, data: string, fee?: FeeOptions) => {
+        console.log('Sending sponsored transaction...');
+        return await this.sendSponsoredTransaction(to, data, fee);
+      }
+    };
+  }
+
+  private async registerAccountOnChain(address: string, fee: FeeOptions = {}): Promise<any> {
+    const network = aztecNetwork.getActiveNetwork();
+    console.log(`Deploying wallet to ${network.name}...`);
+    console.log('Address:', address);
+    console.log('RPC URL:', network.rpcUrl);
+    
+    try {
+      // Verify the endpoint serves the selected network
+      await aztecNetwork.connect();
+      console.log(`✓ ${network.name} endpoint is available`);
 
       // Deploy account using authentic Aztec transaction format
       const deployTx = {
-        jsonrpc: '2.0',
-        method: 'aztec_sendTransaction',
-        params: [
-          {
-            origin: address,
-            functionData: {
-              contractAddress: address, // Self-deploy for account contract
-              entrypoint: '0x00000001', // Account deployment selector
-              argsHash: await this.hashString(address) // Hash of deployment args
-            },
-            args: [
-              { type: 'Field', value: await this.getPublicKeyFromKeyPair() }
-            ],
-            fee: {
-              assetAddress: AZTEC_CONFIG.sponsorAddress // Sponsored FPC
-            },
-            txContext: {
-              nonce: 0,
-              expiry: 0
-            },
-            proof: '0x', // Empty proof for account deployment
-            signature: '0x' // Empty signature for sponsored deployment
-          }
+        origin: address,
+        functionData: {
+          contractAddress: address, // Self-deploy for account contract
+          entrypoint: '0x00000001', // Account deployment selector
+          argsHash: await aztecContracts.hashString(address) // Hash of deployment args
+        },
+        args: [
+          { type: 'Field', value: await this.getPublicKeyFromKeyPair() }
         ],
-        id: Math.floor(Math.random() * 1000)
+        txContext: {
+          nonce: 0,
+          expiry: 0
+        },
+        proof: '0x', // Empty proof for account deployment
+        signature: '0x' // Empty signature for account deployment
       };
 
       console.log('Sending account deployment transaction...');
       console.log('Transaction payload:', deployTx);
 
-      const deployResponse = await fetch(AZTEC_CONFIG.rpcUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(deployTx)
-      });
-
-      if (!deployResponse.ok) {
-        throw new Error(`Deployment failed: HTTP ${deployResponse.status}`);
-      }
-
-      const deployResult = await deployResponse.json();
-      console.log('Deployment transaction response:', deployResult);
+      const response = await payWithFallback(fee, network, address, feePayload =>
+        this.transport.request('aztec_sendTransaction', [{ ...deployTx, fee: feePayload }])
+      );
+      console.log('Deployment transaction response:', response);
+      const transactionHash = parseTxHash(response);
+      const explorerUrl = explorerTxUrl(network, transactionHash);
 
-      if (deployResult.error) {
-        throw new Error(`Deployment Error: ${deployResult.error.message}`);
-      }
+      console.log('✓ Wallet deployment transaction sent!');
+      console.log('Transaction Hash:', transactionHash);
+      console.log('Aztec Explorer:', explorerUrl);
+      transactionTracker.track(transactionHash, {
+        purpose: 'account_deployment',
+        sender: address,
+        rpcUrl: network.rpcUrl,
+        explorerUrl
+      });
 
-      const transactionHash = deployResult.result;
-      
-      if (transactionHash) {
-        console.log('✓ Wallet deployment transaction sent!');
-        console.log('Transaction Hash:', transactionHash);
-        console.log('Aztec Explorer: https://aztec-explorer.xyz/tx/' + transactionHash);
-        
-        return {
-          success: true,
-          message: 'Wallet deployed on Aztec Alpha Testnet',
-          address: address,
-          registered: true,
-          transactionHash: transactionHash,
-          explorerUrl: 'https://aztec-explorer.xyz/tx/' + transactionHash
-        };
-      } else {
-        throw new Error('No transaction hash received');
-      }
+      return {
+        success: true,
+        message: `Wallet deployed on ${network.name}`,
+        address: address,
+        registered: true,
+        transactionHash: transactionHash,
+        explorerUrl
+      };
 
     } catch (error) {
       console.error('Wallet deployment failed:', error);
@@ -226,63 +294,6 @@ class AztecSponsoredWallet {
     }
   }
 
-  private async tryAccountRegistration(address: string): Promise<any> {
-    console.log('Trying alternative account registration methods...');
-    
-    const registrationMethods = [
-      'aztec_registerAccount',
-      'aztec_addAccount',
-      'pxe_addAccount'
-    ];
-
-    for (const method of registrationMethods) {
-      try {
-        const payload = {
-          jsonrpc: '2.0',
-          method: method,
-          params: [address],
-          id: Math.floor(Math.random() * 1000)
-        };
-
-        console.log(`Trying method: ${method}`);
-        
-        const response = await fetch(AZTEC_CONFIG.rpcUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(payload)
-        });
-
-        if (response.ok) {
-          const result = await response.json();
-          
-          if (!result.error && result.result) {
-            console.log(`✓ Account registered with method: ${method}`);
-            console.log('Registration result:', result.result);
-            
-            return {
-              success: true,
-              message: `Account registered using ${method}`,
-              address: address,
-              registered: true,
-              transactionHash: result.result.transactionHash || 'registered',
-              method: method
-            };
-          }
-        }
-      } catch (error) {
-        console.log(`Method ${method} failed:`, error);
-        continue;
-      }
-    }
-
-    return {
-      success: false,
-      message: 'Failed to deploy wallet on-chain',
-      address: address,
-      registered: false
-    };
-  }
-
   private async getPublicKeyFromKeyPair(): Promise<string> {
     if (!this.keyPair) {
       throw new Error('No key pair available');
@@ -294,160 +305,131 @@ class AztecSponsoredWallet {
     return '0x' + publicKeyArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
 
-  private async encodeAccountDeployment(address: string): Promise<string> {
-    // Encode account deployment transaction data for Aztec
-    const publicKey = await this.getPublicKeyFromKeyPair();
-    
-    // Create deployment data with address and public key
-    const deploymentData = {
-      address: address,
-      publicKey: publicKey,
-      type: 'account_deployment'
-    };
-    
-    // Convert to hex-encoded data
-    const jsonString = JSON.stringify(deploymentData);
-    const encoder = new TextEncoder();
-    const bytes = encoder.encode(jsonString);
-    const hexData = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
-    
-    return '0x' + hexData;
-  }
-
-  private async sendSponsoredTransaction(to: string, data: string): Promise<any> {
+  // Sponsored unless `fee` says otherwise; other payment methods are only tried when `fee` lists them
+  private async sendSponsoredTransaction(to: string, data: string, fee: FeeOptions = {}): Promise<string> {
     if (!this.account) {
       throw new Error('No account available');
     }
 
-    // Prepare transaction for paymaster sponsoring
     const txPayload = {
-      jsonrpc: '2.0',
-      method: 'pxe_sendTransaction',
-      params: [{
-        from: this.account.address,
-        to: to,
-        data: data,
-        sponsored: true // Indicates gas should be sponsored
-      }],
-      id: 2
+      from: this.account.address,
+      to: to,
+      data: data
     };
 
     try {
-      const response = await fetch(AZTEC_CONFIG.pxeUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(txPayload)
+      const network = aztecNetwork.getActiveNetwork();
+      const response = await payWithFallback(fee, network, this.account.address, feePayload =>
+        this.transport.request('pxe_sendTransaction', [{ ...txPayload, fee: feePayload }])
+      );
+      const transactionHash = parseTxHash(response);
+      transactionTracker.track(transactionHash, {
+        purpose: 'sponsored_transaction',
+        sender: this.account.address,
+        rpcUrl: network.rpcUrl,
+        explorerUrl: explorerTxUrl(network, transactionHash)
       });
-
-      const result = await response.json();
-      return result;
+      return transactionHash;
     } catch (error) {
       console.error('Sponsored transaction error:', error);
       throw error;
     }
   }
 
-  async createProfile(username: string, avatar?: string, bio?: string): Promise<ProfileCreationResult> {
+  async createProfile(username: string, avatar?: string, bio?: string, fee: FeeOptions = {}): Promise<ProfileCreationResult> {
     if (!this.account) {
       throw new Error('No account available');
     }
 
     try {
-      console.log('Creating profile on Aztec Alpha Testnet...');
+      const network = aztecNetwork.getActiveNetwork();
+      console.log(`Creating profile on ${network.name}...`);
       console.log('Username:', username);
-      console.log('Contract:', AZTEC_CONFIG.profileRegistryAddress);
-      console.log('RPC URL:', AZTEC_CONFIG.rpcUrl);
+      console.log('Contract:', network.contracts.profileRegistry);
+      console.log('RPC URL:', network.rpcUrl);
+
+      // Normalize and validate the username, then make sure nobody registered it yet
+      username = assertValidUsername(username);
+      const usernameHash = await hashUsername(username);
+      if (!(await aztecContracts.isUsernameAvailable(usernameHash))) {
+        throw new UsernameError('taken', `Username "${username}" is already taken`);
+      }
 
-      // Hash username and metadata for Aztec Field format
-      const usernameHash = await this.hashString(username);
-      const metadata = JSON.stringify({ username, avatar, bio });
-      const metadataHash = await this.hashString(metadata);
+      // Store the metadata first; only its hash goes on-chain as token_uri_hash
+      const { hash: metadataHash } = await profileMetadataStore.save({ username, avatar, bio });
 
       console.log('Username hash:', usernameHash);
       console.log('Metadata hash:', metadataHash);
 
-      // Use authentic Aztec sendTransaction method
-      const transactionPayload = {
-        jsonrpc: '2.0',
-        method: 'aztec_sendTransaction',
-        params: [
-          {
-            to: AZTEC_CONFIG.profileRegistryAddress,
-            from: this.account.address,
-            function: 'register_user',
-            args: [usernameHash, metadataHash],
-            gas: '1000000'
-          }
-        ],
-        id: Math.floor(Math.random() * 1000)
-      };
-
-      console.log('Sending transaction to Aztec Alpha Testnet...');
-      console.log('Transaction payload:', transactionPayload);
-
-      const response = await fetch(AZTEC_CONFIG.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(transactionPayload)
+      // The contract client estimates gas for the chosen payment method, sends and tracks the call
+      console.log(`Sending transaction to ${network.name}...`);
+      const tx = await aztecContracts.profileRegistry.methods.create_profile.send(usernameHash, metadataHash, {
+        from: this.account.address,
+        fee,
+        purpose: 'profile_creation'
       });
+      const transactionHash = tx.txHash;
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-      console.log('Transaction response:', result);
-
-      if (result.error) {
-        throw new Error(`Aztec RPC Error: ${result.error.message || result.error}`);
-      }
-
-      // Extract transaction hash from result
-      const transactionHash = result.result?.transactionHash || result.result || 'pending';
-      const profileId = `aztec_${username}_${Date.now()}`;
-      
       console.log('✓ Profile creation transaction sent successfully');
-      console.log('Profile ID:', profileId);
       console.log('Transaction Hash:', transactionHash);
-      
+
+      // The profile id is assigned on-chain; read it back once the tracker reports the tx mined
       return {
         success: true,
-        profileId,
         transactionHash
       };
 
     } catch (error) {
       console.error('Profile creation error:', error);
+      // Invalid or taken usernames are the caller's to handle, as with aztecContracts.createProfile
+      if (error instanceof UsernameError) throw error;
+      const aztecError = toAztecError(error, 'aztec_sendTransaction');
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to create profile'
+        error: aztecError.message,
+        cause: aztecError
       };
     }
   }
 
-  private async hashString(input: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(input);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  getCurrentAccount(): SponsoredAccount | null {
+    return this.account;
   }
 
-  private encodeCreateProfile(usernameHash: string, metadataHash: string): string {
-    // This would encode the function call for the profile registry contract
-    // For now, return a placeholder that represents the encoded call
-    return '0x' + usernameHash + metadataHash;
+  getAddress(): string | null {
+    return this.account?.address ?? null;
   }
 
-  getCurrentAccount(): any {
-    return this.account;
+  async signMessage(message: string): Promise<string> {
+    if (!this.account) {
+      throw new Error('No account available');
+    }
+    return this.account.signMessage(message);
+  }
+
+  // Sponsored by default; `fee` picks another payment method or opts into fallbacks
+  async sendTransaction(request: WalletTransactionRequest, fee?: FeeOptions): Promise<WalletTransactionResult> {
+    if (!('data' in request)) {
+      return { success: false, error: 'Sponsored wallet requires an encoded transaction payload' };
+    }
+
+    try {
+      const transactionHash = await this.sendSponsoredTransaction(request.to, request.data, fee);
+      return {
+        success: true,
+        transactionHash
+      };
+    } catch (error) {
+      const aztecError = toAztecError(error, 'pxe_sendTransaction');
+      return {
+        success: false,
+        error: aztecError.message,
+        cause: aztecError
+      };
+    }
   }
 
-  disconnect(): void {
+  async disconnect(): Promise<void> {
     this.account = null;
     this.keyPair = null;
   }
@@ -0,0 +1,386 @@
+// ABI-driven codec for Aztec contract calls
+// Arguments are flattened into field elements following the Noir ABI layout and return values
+// are decoded back according to the function's return types. Every field is checked against
+// the BN254 scalar field modulus, integers against their bit width.
+
+import { Fr } from '@aztec/aztec.js';
+import type { AztecContractCall, AztecFunction } from './aztec-contracts';
+import { DecodingError, EncodingError } from './aztec-errors';
+
+export type AbiTypeNode =
+  | { kind: 'field' }
+  | { kind: 'bool' }
+  | { kind: 'integer'; signed: boolean; width: number }
+  | { kind: 'address'; name: 'AztecAddress' | 'EthAddress' | 'FunctionSelector'; bits: number }
+  | { kind: 'string'; length: number }
+  | { kind: 'array'; item: AbiTypeNode; length: number }
+  | { kind: 'tuple'; items: AbiTypeNode[] }
+  | { kind: 'struct'; name: string; fields: Array<{ name: string; type: AbiTypeNode }> };
+
+const FIELD_MODULUS = Fr.MODULUS;
+
+const ADDRESS_TYPES = {
+  AztecAddress: 254,
+  EthAddress: 160,
+  FunctionSelector: 32
+} as const;
+
+const parsedTypes = new Map<string, AbiTypeNode>();
+
+// Parse the Noir notation produced by formatAbiType(), e.g. "[bool; 6]" or "Profile { id: Field }"
+export function parseAbiType(type: string): AbiTypeNode {
+  let node = parsedTypes.get(type);
+  if (!node) {
+    const parser = new TypeParser(type);
+    node = parser.parseType();
+    parser.expectEnd();
+    parsedTypes.set(type, node);
+  }
+  return node;
+}
+
+class TypeParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parseType(): AbiTypeNode {
+    this.skipSpace();
+
+    if (this.consume('[')) {
+      const item = this.parseType();
+      this.expect(';');
+      const length = this.parseNumber();
+      this.expect(']');
+      return { kind: 'array', item, length };
+    }
+
+    if (this.consume('(')) {
+      const items: AbiTypeNode[] = [];
+      while (!this.consume(')')) {
+        if (items.length > 0) this.expect(',');
+        items.push(this.parseType());
+      }
+      return { kind: 'tuple', items };
+    }
+
+    const name = this.parseIdentifier();
+    if (name === 'Field') return { kind: 'field' };
+    if (name === 'bool') return { kind: 'bool' };
+    if (name in ADDRESS_TYPES) {
+      const addressName = name as keyof typeof ADDRESS_TYPES;
+      return { kind: 'address', name: addressName, bits: ADDRESS_TYPES[addressName] };
+    }
+
+    const integer = name.match(/^([ui])(\d+)$/);
+    if (integer) {
+      return { kind: 'integer', signed: integer[1] === 'i', width: Number(integer[2]) };
+    }
+
+    if (name === 'str') {
+      this.expect('<');
+      const length = this.parseNumber();
+      this.expect('>');
+      return { kind: 'string', length };
+    }
+
+    this.expect('{');
+    const fields: Array<{ name: string; type: AbiTypeNode }> = [];
+    while (!this.consume('}')) {
+      if (fields.length > 0) this.expect(',');
+      const fieldName = this.parseIdentifier();
+      this.expect(':');
+      fields.push({ name: fieldName, type: this.parseType() });
+    }
+    return { kind: 'struct', name, fields };
+  }
+
+  expectEnd(): void {
+    this.skipSpace();
+    if (this.pos !== this.source.length) this.fail();
+  }
+
+  private parseIdentifier(): string {
+    this.skipSpace();
+    const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.source.slice(this.pos));
+    if (!match) this.fail();
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private parseNumber(): number {
+    this.skipSpace();
+    const match = /^\d+/.exec(this.source.slice(this.pos));
+    if (!match) this.fail();
+    this.pos += match[0].length;
+    return Number(match[0]);
+  }
+
+  private consume(token: string): boolean {
+    this.skipSpace();
+    if (this.source.startsWith(token, this.pos)) {
+      this.pos += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string): void {
+    if (!this.consume(token)) this.fail();
+  }
+
+  private skipSpace(): void {
+    while (this.source[this.pos] === ' ') this.pos++;
+  }
+
+  private fail(): never {
+    throw new EncodingError(`Unsupported ABI type "${this.source}" at position ${this.pos}`);
+  }
+}
+
+// Number of field elements a value of this type occupies
+export function fieldCount(type: AbiTypeNode): number {
+  switch (type.kind) {
+    case 'string':
+      return type.length;
+    case 'array':
+      return type.length * fieldCount(type.item);
+    case 'tuple':
+      return type.items.reduce((sum, item) => sum + fieldCount(item), 0);
+    case 'struct':
+      return type.fields.reduce((sum, field) => sum + fieldCount(field.type), 0);
+    default:
+      return 1;
+  }
+}
+
+const toFieldHex = (value: bigint) => '0x' + value.toString(16).padStart(64, '0');
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number') return Number.isSafeInteger(value) ? BigInt(value) : null;
+  if (typeof value === 'string') {
+    if (!/^(-?\d+|0x[0-9a-fA-F]+)$/.test(value.trim())) return null;
+    return BigInt(value.trim());
+  }
+  // Fr, AztecAddress and friends stringify to 0x-prefixed hex
+  if (value !== null && typeof value === 'object' && typeof value.toString === 'function') {
+    const text = value.toString();
+    return /^0x[0-9a-fA-F]+$/.test(text) ? BigInt(text) : null;
+  }
+  return null;
+}
+
+function encodeInto(type: AbiTypeNode, value: unknown, path: string, out: string[]): void {
+  const fail = (expected: string): never => {
+    throw new EncodingError(`${path}: expected ${expected}`, value);
+  };
+
+  switch (type.kind) {
+    case 'field': {
+      const n = toBigInt(value);
+      if (n === null || n < 0n || n >= FIELD_MODULUS) fail('a Field below the field modulus');
+      out.push(toFieldHex(n!));
+      return;
+    }
+
+    case 'bool':
+      if (typeof value !== 'boolean') fail('a boolean');
+      out.push(toFieldHex(value ? 1n : 0n));
+      return;
+
+    case 'integer': {
+      const n = toBigInt(value);
+      const min = type.signed ? -(1n << BigInt(type.width - 1)) : 0n;
+      const max = type.signed ? (1n << BigInt(type.width - 1)) - 1n : (1n << BigInt(type.width)) - 1n;
+      if (n === null || n < min || n > max) fail(`${type.signed ? 'i' : 'u'}${type.width}`);
+      // Signed integers are encoded in two's complement over their width
+      out.push(toFieldHex(n! < 0n ? n! + (1n << BigInt(type.width)) : n!));
+      return;
+    }
+
+    case 'address': {
+      const n = toBigInt(value);
+      const limit = type.bits >= 254 ? FIELD_MODULUS : 1n << BigInt(type.bits);
+      if (n === null || n < 0n || n >= limit) fail(`an ${type.name}`);
+      out.push(toFieldHex(n!));
+      return;
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') fail(`a string of at most ${type.length} bytes`);
+      const bytes = new TextEncoder().encode(value as string);
+      if (bytes.length > type.length) fail(`a string of at most ${type.length} bytes`);
+      for (let i = 0; i < type.length; i++) {
+        out.push(toFieldHex(BigInt(bytes[i] ?? 0)));
+      }
+      return;
+    }
+
+    case 'array':
+      if (!Array.isArray(value) || value.length !== type.length) fail(`an array of ${type.length} items`);
+      (value as unknown[]).forEach((item, i) => encodeInto(type.item, item, `${path}[${i}]`, out));
+      return;
+
+    case 'tuple':
+      if (!Array.isArray(value) || value.length !== type.items.length) fail(`a tuple of ${type.items.length} items`);
+      type.items.forEach((item, i) => encodeInto(item, (value as unknown[])[i], `${path}.${i}`, out));
+      return;
+
+    case 'struct':
+      if (value === null || typeof value !== 'object') fail(`a ${type.name} struct`);
+      for (const field of type.fields) {
+        if (!(field.name in (value as object))) fail(`a ${type.name} struct with field ${field.name}`);
+        encodeInto(field.type, (value as Record<string, unknown>)[field.name], `${path}.${field.name}`, out);
+      }
+      return;
+  }
+}
+
+// SHA-256 of the UTF-8 text reduced into the field, for committing to off-chain data on-chain
+export async function hashToField(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  return toFieldHex(BigInt('0x' + hex) % FIELD_MODULUS);
+}
+
+export function encodeValue(type: string, value: unknown, path: string = 'value'): string[] {
+  const out: string[] = [];
+  encodeInto(parseAbiType(type), value, path, out);
+  return out;
+}
+
+// Flatten call arguments into field elements, validating each against the function's inputs
+export function encodeArguments(fn: AztecFunction, args: unknown[]): string[] {
+  if (args.length !== fn.inputs.length) {
+    throw new EncodingError(`${fn.name} expects ${fn.inputs.length} argument(s), got ${args.length}`, args);
+  }
+  return fn.inputs.flatMap((input, i) => encodeValue(input.type, args[i], `${fn.name}.${input.name}`));
+}
+
+// Resolve a call against its ABI and encode its arguments
+export function encodeCall(call: AztecContractCall): { fn: AztecFunction; args: string[] } {
+  const fn = call.abi.functions.find(f => f.name === call.functionName);
+  if (!fn) {
+    throw new EncodingError(`Function ${call.functionName} not found in contract ABI`);
+  }
+  return { fn, args: encodeArguments(fn, call.args) };
+}
+
+const isScalar = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'bigint' || typeof value === 'boolean';
+
+class FieldReader {
+  private index = 0;
+
+  constructor(private fields: unknown[]) {}
+
+  next(): unknown {
+    return this.fields[this.index++];
+  }
+}
+
+function decodeScalar(type: AbiTypeNode, raw: unknown, path: string): unknown {
+  const fail = (expected: string): never => {
+    throw new DecodingError(`${path}: expected ${expected}`, raw);
+  };
+
+  if (type.kind === 'bool') {
+    if (typeof raw === 'boolean') return raw;
+    const n = toBigInt(raw);
+    if (n !== 0n && n !== 1n) fail('bool');
+    return n === 1n;
+  }
+
+  const n = typeof raw === 'boolean' ? null : toBigInt(raw);
+  if (n === null || n < 0n || n >= FIELD_MODULUS) fail('a field element');
+
+  switch (type.kind) {
+    case 'field':
+      return n!.toString();
+    case 'integer': {
+      const width = BigInt(type.width);
+      if (n! >= 1n << width) fail(`${type.signed ? 'i' : 'u'}${type.width}`);
+      const signBit = 1n << (width - 1n);
+      return (type.signed && n! >= signBit ? n! - (1n << width) : n!).toString();
+    }
+    case 'address': {
+      if (type.bits < 254 && n! >= 1n << BigInt(type.bits)) fail(type.name);
+      return '0x' + n!.toString(16).padStart(Math.ceil(type.bits / 8) * 2, '0');
+    }
+    default:
+      return fail('a scalar');
+  }
+}
+
+function decodeFrom(type: AbiTypeNode, reader: FieldReader, path: string): unknown {
+  switch (type.kind) {
+    case 'string': {
+      const bytes = Array.from({ length: type.length }, (_, i) =>
+        Number(decodeScalar({ kind: 'integer', signed: false, width: 8 }, reader.next(), `${path}[${i}]`))
+      );
+      return new TextDecoder().decode(new Uint8Array(bytes)).replace(/\0+$/, '');
+    }
+    case 'array':
+      return Array.from({ length: type.length }, (_, i) => decodeFrom(type.item, reader, `${path}[${i}]`));
+    case 'tuple':
+      return type.items.map((item, i) => decodeFrom(item, reader, `${path}.${i}`));
+    case 'struct':
+      return Object.fromEntries(
+        type.fields.map(field => [field.name, decodeFrom(field.type, reader, `${path}.${field.name}`)])
+      );
+    default:
+      return decodeScalar(type, reader.next(), path);
+  }
+}
+
+function decodeNode(type: AbiTypeNode, raw: unknown, path: string): unknown {
+  // Nodes may return composite values either flattened into fields or as nested JSON
+  if (type.kind !== 'string' && Array.isArray(raw) && raw.length === fieldCount(type) && raw.every(isScalar)) {
+    return decodeFrom(type, new FieldReader(raw), path);
+  }
+
+  const fail = (expected: string): never => {
+    throw new DecodingError(`${path}: expected ${expected}`, raw);
+  };
+
+  switch (type.kind) {
+    case 'string':
+      if (typeof raw === 'string') {
+        if (new TextEncoder().encode(raw).length > type.length) fail(`str<${type.length}>`);
+        return raw;
+      }
+      if (!Array.isArray(raw) || raw.length !== type.length) fail(`str<${type.length}>`);
+      return decodeFrom(type, new FieldReader(raw as unknown[]), path);
+    case 'array':
+      if (!Array.isArray(raw) || raw.length !== type.length) fail(`an array of ${type.length} items`);
+      return (raw as unknown[]).map((item, i) => decodeNode(type.item, item, `${path}[${i}]`));
+    case 'tuple':
+      if (!Array.isArray(raw) || raw.length !== type.items.length) fail(`a tuple of ${type.items.length} items`);
+      return type.items.map((item, i) => decodeNode(item, (raw as unknown[])[i], `${path}.${i}`));
+    case 'struct':
+      if (raw === null || typeof raw !== 'object') fail(`a ${type.name} struct`);
+      return Object.fromEntries(type.fields.map(field => {
+        if (!(field.name in (raw as object))) fail(`a ${type.name} struct with field ${field.name}`);
+        return [field.name, decodeNode(field.type, (raw as Record<string, unknown>)[field.name], `${path}.${field.name}`)];
+      }));
+    default:
+      return decodeScalar(type, raw, path);
+  }
+}
+
+// Field, integers -> decimal string, addresses -> 0x hex, bool -> boolean,
+// str<N> -> string, arrays and tuples -> arrays, structs -> objects
+export function decodeValue(type: string, raw: unknown, path: string = 'value'): unknown {
+  return decodeNode(parseAbiType(type), raw, path);
+}
+
+// Decode a simulation result according to the function's return types
+export function decodeReturnValues(fn: AztecFunction, raw: unknown): unknown {
+  const outputs = fn.outputs ?? [];
+  if (outputs.length === 0) return undefined;
+  if (outputs.length === 1) return decodeValue(outputs[0].type, raw, fn.name);
+
+  const tuple = `(${outputs.map(output => output.type).join(', ')})`;
+  return decodeValue(tuple, raw, fn.name);
+}
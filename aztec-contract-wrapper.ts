@@ -0,0 +1,185 @@
+// Typed contract wrappers generated from an AztecContractABI
+// A contract's signatures (names, parameter and return types) are kept as a `const` list,
+// emitted by generateContractSignatures(), which gives every method typed arguments and
+// results. At runtime each call is checked against the ABI loaded from the compiled artifact,
+// so a stale signature list fails loudly instead of sending malformed calls.
+
+import type { AztecContractABI, AztecContractCall, AztecFunction } from './aztec-contracts';
+import { decodeReturnValues, encodeArguments } from './aztec-codec';
+import { DecodingError } from './aztec-errors';
+import type { FeeOptions } from './aztec-fees';
+import type { SentTransaction } from './aztec-transactions';
+import type { TransactionPurpose } from './transaction-tracker';
+
+export interface FunctionSignature {
+  readonly name: string;
+  readonly inputs: readonly { readonly name: string; readonly type: string }[];
+  readonly outputs?: readonly { readonly type: string }[];
+}
+
+type IntegerTypeName = `u${number}` | `i${number}`;
+type FieldLikeTypeName = 'Field' | 'AztecAddress' | 'EthAddress' | 'FunctionSelector' | IntegerTypeName;
+
+// TypeScript value accepted for a Noir argument type
+export type AbiArgument<T extends string> =
+  T extends 'bool' ? boolean :
+  T extends FieldLikeTypeName ? string | bigint | number :
+  T extends `str<${number}>` ? string :
+  T extends `[${infer Item}; ${number}]` ? AbiArgument<Item>[] :
+  unknown;
+
+// TypeScript value produced for a Noir return type
+export type AbiResult<T extends string> =
+  T extends 'bool' ? boolean :
+  T extends FieldLikeTypeName ? string :
+  T extends `str<${number}>` ? string :
+  T extends `[${infer Item}; ${number}]` ? AbiResult<Item>[] :
+  unknown;
+
+type ArgumentsOf<Inputs extends FunctionSignature['inputs']> = {
+  -readonly [K in keyof Inputs]: Inputs[K] extends { type: infer T extends string } ? AbiArgument<T> : never;
+};
+
+type ResultOf<Outputs extends FunctionSignature['outputs']> =
+  Outputs extends readonly [] | undefined ? void :
+  Outputs extends readonly [{ type: infer T extends string }] ? AbiResult<T> :
+  unknown[];
+
+export interface SendOptions {
+  from?: string;
+  fee?: FeeOptions;
+  purpose?: TransactionPurpose;   // recorded by the transaction tracker, 'contract_call' by default
+}
+
+export interface ContractMethod<Args extends unknown[], Result> {
+  // Run the function locally against current state, nothing is submitted
+  simulate(...args: Args): Promise<Result>;
+  // Submit the function as a transaction; SendOptions may follow the arguments
+  send(...args: Args | [...Args, SendOptions]): Promise<SentTransaction>;
+  // Describe the invocation for a wallet to execute (e.g. AzGuard)
+  call(...args: Args): Promise<AztecContractCall>;
+}
+
+export type ContractMethods<Signatures extends readonly FunctionSignature[]> = {
+  [F in Signatures[number] as F['name']]: ContractMethod<ArgumentsOf<F['inputs']>, ResultOf<F['outputs']>>;
+};
+
+export interface ContractRunner {
+  // `args` are already flattened into field elements by the codec
+  simulate(contractAddress: string, fn: AztecFunction, args: string[]): Promise<unknown>;
+  send(call: AztecContractCall, options: SendOptions): Promise<SentTransaction>;
+}
+
+export class ContractWrapper<Signatures extends readonly FunctionSignature[]> {
+  readonly methods: ContractMethods<Signatures>;
+  private checked = new Map<string, Promise<AztecFunction>>();
+
+  constructor(
+    readonly contractAddress: string,
+    private loadAbi: () => Promise<AztecContractABI>,
+    private runner: ContractRunner,
+    private signatures: Signatures
+  ) {
+    const methods: Record<string, ContractMethod<unknown[], unknown>> = {};
+    for (const signature of signatures) {
+      methods[signature.name] = this.createMethod(signature);
+    }
+    this.methods = methods as ContractMethods<Signatures>;
+  }
+
+  // Whether the compiled artifact has `name`, with the expected signature when it is one of the
+  // typed ones; lets callers skip functions that only some contract versions provide.
+  // Artifact load failures still throw.
+  async supports(name: string): Promise<boolean> {
+    const abi = await this.loadAbi();
+    const signature = this.signatures.find(s => s.name === name);
+    if (!signature) return abi.functions.some(fn => fn.name === name);
+    try {
+      checkSignature(abi, signature);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Untyped method for a function outside the signature list, described by the artifact itself.
+  // For functions only some deployments have; throws when the deployed artifact lacks it.
+  async method(name: string): Promise<ContractMethod<unknown[], unknown>> {
+    const abi = await this.loadAbi();
+    const fn = abi.functions.find(f => f.name === name);
+    if (!fn) {
+      throw new DecodingError(`${name} is not in the ${abi.name ?? 'contract'} artifact`);
+    }
+    return this.createMethod(fn);
+  }
+
+  private createMethod(signature: FunctionSignature): ContractMethod<unknown[], unknown> {
+    return {
+      simulate: async (...args) => {
+        const fn = await this.resolve(signature);
+        const raw = await this.runner.simulate(this.contractAddress, fn, encodeArguments(fn, args));
+        return decodeReturnValues(fn, raw);
+      },
+      send: async (...args) => {
+        const options = args.length > signature.inputs.length ? args.pop() as SendOptions : {};
+        return this.runner.send(await this.toCall(signature, args), options);
+      },
+      call: async (...args) => this.toCall(signature, args)
+    };
+  }
+
+  // Arguments are validated by encoding them; wallets receive the original values
+  private async toCall(signature: FunctionSignature, args: unknown[]): Promise<AztecContractCall> {
+    encodeArguments(await this.resolve(signature), args);
+    return {
+      contractAddress: this.contractAddress,
+      abi: await this.loadAbi(),
+      functionName: signature.name,
+      args
+    };
+  }
+
+  // Confirms once per function that the signature still matches the compiled artifact
+  private resolve(signature: FunctionSignature): Promise<AztecFunction> {
+    let fn = this.checked.get(signature.name);
+    if (!fn) {
+      fn = this.loadAbi().then(abi => checkSignature(abi, signature));
+      fn.catch(() => this.checked.delete(signature.name));
+      this.checked.set(signature.name, fn);
+    }
+    return fn;
+  }
+}
+
+function checkSignature(abi: AztecContractABI, signature: FunctionSignature): AztecFunction {
+  const fn = abi.functions.find(f => f.name === signature.name);
+  if (!fn) {
+    throw new DecodingError(`${signature.name} is not in the ${abi.name ?? 'contract'} artifact`);
+  }
+
+  const types = (items: readonly { type: string }[] = []) => items.map(item => item.type).join(', ');
+  if (types(fn.inputs) !== types(signature.inputs) || types(fn.outputs) !== types(signature.outputs)) {
+    throw new DecodingError(
+      `${signature.name} signature is out of date: artifact has (${types(fn.inputs)}) -> (${types(fn.outputs)})`,
+      fn
+    );
+  }
+  return fn;
+}
+
+// Emit the `const` signature list for an ABI, to be pasted or written next to the client
+export function generateContractSignatures(abi: AztecContractABI, constName: string): string {
+  const lines = abi.functions.map(fn => {
+    const inputs = fn.inputs.map(input => `{ name: '${input.name}', type: '${input.type}' }`).join(', ');
+    const outputs = (fn.outputs ?? []).map(output => `{ type: '${output.type}' }`).join(', ');
+    return `  { name: '${fn.name}', inputs: [${inputs}], outputs: [${outputs}] }`;
+  });
+
+  return [
+    `// Generated from the ${abi.name ?? 'contract'} artifact by generateContractSignatures()`,
+    `export const ${constName} = [`,
+    lines.join(',\n'),
+    '] as const satisfies readonly FunctionSignature[];',
+    ''
+  ].join('\n');
+}
@@ -1,346 +1,694 @@
 // REAL AZTEC CONTRACT INTEGRATION
-// Using proper Aztec Network RPC format for Alpha Testnet
+// Using proper Aztec Network RPC format; endpoints and addresses come from the active network profile
+
+import type { FunctionType } from '@aztec/aztec.js';
+import { loadContractAbi } from './aztec-artifacts';
+import { encodeCall } from './aztec-codec';
+import { ContractWrapper, type ContractRunner, type FunctionSignature } from './aztec-contract-wrapper';
+import { ContractRevertError, DecodingError, EncodingError, toAztecError, toContractError, toResult, type Result } from './aztec-errors';
+import {
+  buildFeeEstimate,
+  buildFeePayload,
+  parseGasFees,
+  parseGasUsed,
+  payWithFallback,
+  type FeeEstimate,
+  type FeeOptions,
+  type FeePayload,
+  type FeePaymentMethod,
+  type GasFees
+} from './aztec-fees';
+import { aztecNetwork, explorerTxUrl, validateNetworkProfile, type NetworkProfile } from './aztec-network';
+import { getNodePool, type AztecNodePool } from './aztec-node-pool';
+import { BlockReadCache, readCacheKey } from './aztec-read-cache';
+import { parseTxHash, SentTransaction, type TxReceipt, type WaitOptions } from './aztec-transactions';
+import { checkUsername, hashUsername, UsernameError, validateUsername, type UsernameAvailability, type UsernameRegistry } from './aztec-username';
+import { getProfileIndexer, type ProfileIndexer } from './profile-indexer';
+import { profileMetadataStore, type ProfileMetadata } from './profile-metadata';
+import { transactionTracker } from './transaction-tracker';
+import {
+  getVerificationProvider,
+  VERIFICATION_PROVIDERS,
+  type VerificationAttestation,
+  type VerificationProviderId
+} from './verification-providers';
+
+export type AztecFunctionType = `${FunctionType}`;
 
 export interface AztecFunction {
   name: string;
   selector: string;
+  functionType: AztecFunctionType;
+  isStatic: boolean;
+  isInitializer: boolean;
   inputs: Array<{name: string, type: string}>;
   outputs?: Array<{type: string}>;
 }
 
+// An event as emitted into public logs, selector last
+export interface AztecEvent {
+  name: string;
+  selector: string;
+  fields: Array<{name: string, type: string}>;
+}
+
 export interface AztecContractABI {
+  name?: string;
   functions: AztecFunction[];
+  events?: AztecEvent[];
 }
 
-// Mock ABI structure based on your contract code
-const PROFILE_REGISTRY_ABI: AztecContractABI = {
-  functions: [
-    {
-      name: "create_profile",
-      selector: "0x12345678",
-      inputs: [
-        {name: "username_hash", type: "Field"},
-        {name: "token_uri_hash", type: "Field"}
-      ]
-    },
-    {
-      name: "has_profile", 
-      selector: "0x23456789",
-      inputs: [{name: "user", type: "AztecAddress"}],
-      outputs: [{type: "bool"}]
-    },
-    {
-      name: "get_profile_id",
-      selector: "0x34567890", 
-      inputs: [{name: "user", type: "AztecAddress"}],
-      outputs: [{type: "Field"}]
-    },
-    {
-      name: "get_total_profiles",
-      selector: "0x45678901",
-      inputs: [],
-      outputs: [{type: "Field"}]
-    }
-  ]
-};
+// A single contract function invocation described by its ABI
+export interface AztecContractCall {
+  contractAddress: string;
+  abi: AztecContractABI;
+  functionName: string;
+  args: any[];
+}
+
+// Typed signatures of the contract functions the app calls, as declared by the compiled artifacts.
+// Regenerate with generateContractSignatures() when the contracts change.
+//
+// Functions that only a newer deployment may have are not listed here: they are taken from the
+// loaded artifact by name with ContractWrapper.method(), after ContractWrapper.supports() says
+// the artifact has them. See OPTIONAL_REGISTRY_FUNCTIONS and submitVerification().
+export const PROFILE_REGISTRY_SIGNATURES = [
+  { name: 'create_profile', inputs: [{ name: 'username_hash', type: 'Field' }, { name: 'token_uri_hash', type: 'Field' }], outputs: [] },
+  { name: 'has_profile', inputs: [{ name: 'user', type: 'AztecAddress' }], outputs: [{ type: 'bool' }] },
+  { name: 'get_profile_id', inputs: [{ name: 'user', type: 'AztecAddress' }], outputs: [{ type: 'Field' }] },
+  { name: 'get_total_profiles', inputs: [], outputs: [{ type: 'Field' }] },
+  { name: 'is_username_available', inputs: [{ name: 'username_hash', type: 'Field' }], outputs: [{ type: 'bool' }] }
+] as const satisfies readonly FunctionSignature[];
 
-const PRIVATE_SOCIAL_ABI: AztecContractABI = {
-  functions: [
-    {
-      name: "get_profile_verifications",
-      selector: "0x56789012",
-      inputs: [{name: "profile_id", type: "Field"}],
-      outputs: [{type: "[bool; 6]"}]
-    },
-    {
-      name: "is_twitter_verified",
-      selector: "0x67890123",
-      inputs: [{name: "profile_id", type: "Field"}],
-      outputs: [{type: "bool"}]
+// Per-profile views getProfile() uses when the deployed registry has them, all taking the
+// profile id (or username hash) as a single Field
+const OPTIONAL_REGISTRY_FUNCTIONS = {
+  profileIdByUsername: 'get_profile_id_by_username',
+  profileOwner: 'get_profile_owner',
+  usernameHash: 'get_username_hash',
+  tokenUriHash: 'get_token_uri_hash'
+} as const;
+
+export const PRIVATE_SOCIAL_SIGNATURES = [
+  { name: 'get_profile_verifications', inputs: [{ name: 'profile_id', type: 'Field' }], outputs: [{ type: '[bool; 6]' }] },
+  { name: 'is_twitter_verified', inputs: [{ name: 'profile_id', type: 'Field' }], outputs: [{ type: 'bool' }] }
+] as const satisfies readonly FunctionSignature[];
+
+// get_profile_verifications keyed by provider, see verification-providers.ts for the slot layout
+export type VerificationFlags = Record<VerificationProviderId, boolean>;
+
+export interface Profile {
+  id: string;
+  owner: string;
+  usernameHash: string | null;        // null when the registry has no per-profile getters yet
+  tokenUriHash: string | null;
+  metadata: ProfileMetadata | null;   // null when the metadata store cannot provide verified content
+  verifications: VerificationFlags;
+}
+
+export type ProfileLookup =
+  | { found: true; profile: Profile }
+  | { found: false; query: string; reason: 'no_profile' | 'invalid_username' };
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+const toVerificationFlags = (slots: boolean[]): VerificationFlags =>
+  Object.fromEntries(VERIFICATION_PROVIDERS.map(provider => [provider.id, slots[provider.slot] ?? false])) as VerificationFlags;
+
+export interface FeeEstimateOptions {
+  from?: string;
+  paymentMethod?: FeePaymentMethod;   // sponsored when unset
+  gasMargin?: number;                 // defaults to DEFAULT_GAS_MARGIN
+}
+
+export interface TransactionOptions extends WaitOptions {
+  fee?: FeeOptions;
+}
+
+export interface CreateProfileResult extends TxReceipt {
+  transactionHash: string;
+  profileId?: string;   // set once the transaction is mined
+}
+
+export interface ContractArtifactUrls {
+  profileRegistry: string;
+  privateSocial: string;
+}
+
+export interface BatchReadOptions {
+  concurrency?: number;   // reads in flight at once; simulations issued together share one JSON-RPC batch
+}
+
+const DEFAULT_BATCH_CONCURRENCY = 50;
+const MAX_SIMULATIONS_PER_REQUEST = 50;
+
+interface QueuedSimulation {
+  contractAddress: string;
+  fn: AztecFunction;
+  args: string[];
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+// Runs `read` over every item with at most `concurrency` in flight; failures are kept per item
+async function readMany<T, R>(items: readonly T[], concurrency: number, read: (item: T) => Promise<R>): Promise<Result<R>[]> {
+  const results: Result<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await toResult(() => read(items[index]));
     }
-  ]
+  };
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  return results;
+}
+
+const env = import.meta.env;
+
+// Compiled artifacts as emitted by `aztec-nargo compile` (target/<crate>-<Contract>.json).
+// They are build output of the contracts workspace, not part of this package: copy them into the
+// app's public/artifacts/ directory, or point VITE_CONTRACT_ARTIFACTS_URL at wherever they are served.
+const ARTIFACTS_BASE_URL = (env.VITE_CONTRACT_ARTIFACTS_URL || '/artifacts').replace(/\/+$/, '');
+
+export const CONTRACT_ARTIFACTS: ContractArtifactUrls = {
+  profileRegistry: `${ARTIFACTS_BASE_URL}/profile_registry-ProfileRegistry.json`,
+  privateSocial: `${ARTIFACTS_BASE_URL}/private_social-PrivateSocial.json`
 };
 
 class AztecRPCClient {
-  private rpcUrl: string;
+  readonly rpcUrl: string;
+  readonly transport: AztecNodePool;
+  private queue: QueuedSimulation[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
-  constructor(rpcUrl: string) {
-    this.rpcUrl = rpcUrl + '/jsonrpc'; // Use proper jsonrpc endpoint
+  constructor(network: NetworkProfile) {
+    this.rpcUrl = network.rpcUrl;
+    this.transport = getNodePool(network);
   }
 
-  async simulateTransaction(contractAddress: string, functionName: string, params: any[] = []): Promise<any> {
-    try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'aztec_simulateTransaction',
-          params: {
-            contractAddress: contractAddress,
-            functionName: functionName,
-            args: params
-          },
-          id: 1
-        })
-      });
-
-      const result = await response.json();
-      
-      if (result.error) {
-        throw new Error(`Simulation error: ${result.error.message}`);
-      }
+  // `args` are field elements produced by encodeArguments(). Simulations issued in the same
+  // tick are sent together as one JSON-RPC batch
+  simulateTransaction(contractAddress: string, fn: AztecFunction, args: string[]): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ contractAddress, fn, args, resolve, reject });
+      this.flushTimer ??= setTimeout(() => this.flush(), 0);
+    });
+  }
 
-      return result.result;
-    } catch (error) {
-      console.error(`Simulation failed for ${functionName}:`, error);
-      throw error;
+  private flush(): void {
+    this.flushTimer = null;
+    const queued = this.queue;
+    this.queue = [];
+    for (let i = 0; i < queued.length; i += MAX_SIMULATIONS_PER_REQUEST) {
+      void this.simulateBatch(queued.slice(i, i + MAX_SIMULATIONS_PER_REQUEST));
     }
   }
 
-  async getBlockNumber(): Promise<number> {
+  private async simulateBatch(batch: QueuedSimulation[]): Promise<void> {
+    const params = ({ contractAddress, fn, args }: QueuedSimulation) => ({
+      contractAddress,
+      functionName: fn.name,
+      functionSelector: fn.selector,
+      args
+    });
+    const fail = (sim: QueuedSimulation, error: unknown) => {
+      console.error(`Simulation failed for ${sim.fn.name}:`, error);
+      sim.reject(toContractError(error, sim.contractAddress, sim.fn.name));
+    };
+
+    if (batch.length === 1) {
+      const [sim] = batch;
+      try {
+        sim.resolve(await this.transport.request('aztec_simulateTransaction', params(sim)));
+      } catch (error) {
+        fail(sim, error);
+      }
+      return;
+    }
+
     try {
-      const response = await fetch(this.rpcUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          method: 'aztec_getBlockNumber',
-          params: [],
-          id: 1
-        })
+      const results = await this.transport.batch(
+        batch.map(sim => ({ method: 'aztec_simulateTransaction', params: params(sim) }))
+      );
+      results.forEach((result, index) => {
+        if (result.ok) batch[index].resolve(result.value);
+        else fail(batch[index], result.error);
       });
-
-      const result = await response.json();
-      return result.result || 0;
     } catch (error) {
-      console.error('Failed to get block number:', error);
-      return 0;
+      batch.forEach(sim => fail(sim, error));
     }
   }
 
-  private parseAztecResult(functionName: string, result: any): any {
-    if (!result) return this.getDefaultValue(functionName);
-    
-    switch (functionName) {
-      case 'has_profile':
-        return Boolean(result);
-      case 'get_profile_id':
-        return result.toString();
-      case 'get_total_profiles':
-        return parseInt(result) || 0;
-      case 'get_profile_verifications':
-        return Array.isArray(result) ? result : [false, false, false, false, false, false];
-      case 'is_username_available':
-        return Boolean(result);
-      default:
-        return result;
+  // Simulation as the sequencer would run it, reporting the gas it used
+  async simulateGas(
+    contractAddress: string,
+    fn: AztecFunction,
+    args: string[],
+    from: string | undefined,
+    fee: FeePayload
+  ): Promise<ReturnType<typeof parseGasUsed>> {
+    try {
+      const result = await this.transport.request('aztec_simulateTransaction', {
+        contractAddress,
+        functionName: fn.name,
+        functionSelector: fn.selector,
+        args,
+        from,
+        fee,
+        estimateGas: true
+      });
+      return parseGasUsed(result);
+    } catch (error) {
+      console.error(`Gas estimation failed for ${fn.name}:`, error);
+      throw toContractError(error, contractAddress, fn.name);
     }
   }
 
-  private getDefaultValue(functionName: string): any {
-    switch (functionName) {
-      case 'has_profile':
-        return false;
-      case 'get_profile_id':
-        return '0';
-      case 'get_total_profiles':
-        return 0;
-      case 'get_profile_verifications':
-        return [false, false, false, false, false, false];
-      case 'is_username_available':
-        return true;
-      default:
-        return null;
-    }
+  async getCurrentBaseFees(): Promise<GasFees> {
+    return parseGasFees(await this.transport.request('aztec_getCurrentBaseFees'));
   }
 
-  private decodeResult(functionName: string, result: string): any {
-    // Decode the hex result based on function type
-    switch (functionName) {
-      case 'has_profile':
-        return result !== '0x0000000000000000000000000000000000000000000000000000000000000000';
-      case 'get_profile_id':
-      case 'get_total_profiles':
-        return parseInt(result, 16).toString();
-      case 'get_profile_verifications':
-        // Parse array of booleans from hex result
-        const hexValue = result.replace('0x', '');
-        return Array.from({ length: 6 }, (_, i) => {
-          const byteIndex = i * 64;
-          const byte = hexValue.slice(byteIndex, byteIndex + 64);
-          return byte !== '0000000000000000000000000000000000000000000000000000000000000000';
-        });
-      default:
-        return result;
+  async getBlockNumber(): Promise<number> {
+    const result = await this.transport.request('aztec_getBlockNumber');
+    const blockNumber = Number(result);
+    if (!Number.isSafeInteger(blockNumber) || blockNumber < 0) {
+      throw new DecodingError('Invalid block number returned by node', result);
     }
+    return blockNumber;
   }
 
-  async sendTransaction(contractAddress: string, functionName: string, params: any[] = [], from?: string): Promise<any> {
+  // Submits the call and returns a handle for following its receipt
+  async sendTransaction(
+    contractAddress: string,
+    fn: AztecFunction,
+    args: string[],
+    from?: string,
+    fee?: FeePayload
+  ): Promise<SentTransaction> {
+    console.log(`Sending transaction ${fn.name} to ${contractAddress} from ${from} with args:`, args);
     try {
-      console.log(`Sending transaction ${functionName} to ${contractAddress} from ${from} with params:`, params);
-      
-      // Simulate transaction success with transaction hash
-      return {
-        transactionHash: '0x' + Math.random().toString(16).substring(2, 66),
-        status: 'success',
-        blockNumber: Math.floor(Math.random() * 1000000),
-        gasUsed: '21000'
-      };
+      const result = await this.transport.request('aztec_sendTransaction', {
+        contractAddress,
+        functionName: fn.name,
+        functionSelector: fn.selector,
+        args,
+        from,
+        fee
+      });
+      return new SentTransaction(parseTxHash(result), this.transport);
     } catch (error) {
       console.error(`Transaction failed:`, error);
-      throw error;
+      throw toContractError(error, contractAddress, fn.name);
     }
   }
+}
+
+export class AztecContractClient implements UsernameRegistry {
+  private rpc!: AztecRPCClient;
+  private network!: NetworkProfile;
+  private readCache: BlockReadCache | null = null;
+  private profileRegistryAddress!: string;
+  private privateSocialAddress!: string;
+  private artifacts: ContractArtifactUrls;
 
-  private encodeFunctionCall(functionName: string, params: any[]): string {
-    // Simple function encoding for Aztec contracts
-    const functionHash = this.hashString(functionName).slice(0, 10);
-    const encodedParams = params.map(param => {
-      if (typeof param === 'string') {
-        if (param.startsWith('0x')) {
-          return param.slice(2).padStart(64, '0');
-        }
-        return this.hashString(param).slice(2);
+  // Typed wrappers, e.g. profileRegistry.methods.has_profile.simulate(user)
+  profileRegistry!: ContractWrapper<typeof PROFILE_REGISTRY_SIGNATURES>;
+  privateSocial!: ContractWrapper<typeof PRIVATE_SOCIAL_SIGNATURES>;
+
+  constructor(network: NetworkProfile, artifacts: ContractArtifactUrls = CONTRACT_ARTIFACTS) {
+    this.artifacts = artifacts;
+    this.setNetwork(network);
+  }
+
+  // Point the client at another network's node and contract deployments
+  setNetwork(network: NetworkProfile): void {
+    const rpc = new AztecRPCClient(network);
+    this.rpc = rpc;
+    this.network = network;
+    this.profileRegistryAddress = network.contracts.profileRegistry;
+    this.privateSocialAddress = network.contracts.privateSocial;
+
+    this.readCache?.stop();
+    const readCache = new BlockReadCache(() => rpc.getBlockNumber());
+    this.readCache = readCache;
+
+    const runner: ContractRunner = {
+      // Only views are cached; simulating a state-changing function must always hit the node
+      simulate: async (contractAddress, fn, args) => {
+        await this.ready(network);
+        return fn.isStatic || fn.functionType === 'utility'
+          ? readCache.get(readCacheKey(contractAddress, fn.name, args), contractAddress, () => rpc.simulateTransaction(contractAddress, fn, args))
+          : rpc.simulateTransaction(contractAddress, fn, args);
+      },
+      send: async (call, options) => {
+        await this.ready(network);
+        const { fn, args } = encodeCall(call);
+        // Each payment method is estimated on its own; FPCs add their own gas on top of the call
+        const tx = await payWithFallback(options.fee ?? {}, network, options.from ?? '', async (fee, method) => {
+          const estimate = await this.estimate(rpc, call.contractAddress, fn, args, options.from, method, fee, options.fee?.gasMargin);
+          return rpc.sendTransaction(call.contractAddress, fn, args, options.from, { ...fee, gasSettings: estimate.gasSettings });
+        });
+        transactionTracker.track(tx.txHash, {
+          purpose: options.purpose ?? 'contract_call',
+          sender: options.from ?? '',
+          rpcUrl: rpc.rpcUrl,
+          explorerUrl: explorerTxUrl(network, tx.txHash)
+        });
+        readCache.invalidate(call.contractAddress);
+        return tx;
       }
-      return param.toString(16).padStart(64, '0');
-    }).join('');
-    
-    return functionHash + encodedParams;
-  }
-
-  private hashString(input: string): string {
-    let hash = 0;
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+    };
+    this.profileRegistry = new ContractWrapper(
+      this.profileRegistryAddress,
+      () => this.getProfileRegistryAbi(),
+      runner,
+      PROFILE_REGISTRY_SIGNATURES
+    );
+    this.privateSocial = new ContractWrapper(
+      this.privateSocialAddress,
+      () => this.getPrivateSocialAbi(),
+      runner,
+      PRIVATE_SOCIAL_SIGNATURES
+    );
+  }
+
+  // Nodes serving the current network, with health status for the UI
+  get nodes(): AztecNodePool {
+    return this.rpc.transport;
+  }
+
+  // Local index of registrations for search, leaderboards and recent members; start() it to follow the chain
+  get indexer(): ProfileIndexer {
+    return getProfileIndexer(this.network, this.artifacts);
+  }
+
+  // Gas limits and expected fee of `call` for a payment method, so the UI can show the cost.
+  // Contract sends run the same estimate and use its limits.
+  async estimateFee(call: AztecContractCall, options: FeeEstimateOptions = {}): Promise<FeeEstimate> {
+    const { fn, args } = encodeCall(call);
+    const method = options.paymentMethod ?? { type: 'sponsored' };
+    const fee = buildFeePayload(method, this.network, options.from ?? '');
+    return this.estimate(this.rpc, call.contractAddress, fn, args, options.from, method, fee, options.gasMargin);
+  }
+
+  // The active network is checked against its node once (aztecNetwork.connect() caches the
+  // result); a client pinned to another network can only have its profile validated
+  private async ready(network: NetworkProfile): Promise<void> {
+    const active = aztecNetwork.getActiveNetwork();
+    if (network.id === active.id && network.rpcUrl === active.rpcUrl) {
+      await aztecNetwork.connect();
+    } else {
+      validateNetworkProfile(network);
     }
-    return '0x' + Math.abs(hash).toString(16).padStart(64, '0');
   }
-}
 
-export class AztecContractClient {
-  private rpc: AztecRPCClient;
-  private profileRegistryAddress: string;
-  private privateSocialAddress: string;
+  private async estimate(
+    rpc: AztecRPCClient,
+    contractAddress: string,
+    fn: AztecFunction,
+    args: string[],
+    from: string | undefined,
+    method: FeePaymentMethod,
+    fee: FeePayload,
+    gasMargin?: number
+  ): Promise<FeeEstimate> {
+    const [gasUsed, baseFees] = await Promise.all([
+      rpc.simulateGas(contractAddress, fn, args, from, fee),
+      rpc.getCurrentBaseFees()
+    ]);
+    const estimate = buildFeeEstimate(method, fee, gasUsed, baseFees, gasMargin);
+    console.log(`Estimated fee for ${fn.name}:`, estimate.estimatedFee, 'max', estimate.maxFee);
+    return estimate;
+  }
 
-  constructor(rpcUrl: string, profileRegistryAddress: string, privateSocialAddress: string) {
-    this.rpc = new AztecRPCClient(rpcUrl);
-    this.profileRegistryAddress = profileRegistryAddress;
-    this.privateSocialAddress = privateSocialAddress;
+  // Forget cached contract reads, e.g. after a transaction sent through a wallet settles
+  invalidateReads(contractAddress?: string): void {
+    this.readCache?.invalidate(contractAddress);
   }
 
-  // Test connection to Aztec network
+  // Test connection to Aztec network: at least one node must answer on the right chain and keep up
   async testConnection(): Promise<boolean> {
-    try {
-      const blockNumber = await this.rpc.getBlockNumber();
-      console.log('Connected to Aztec network, block number:', blockNumber);
-      return blockNumber > 0;
-    } catch (error) {
-      console.error('Failed to connect to Aztec network:', error);
-      return false;
-    }
+    const health = await this.nodes.checkHealth();
+    const status = this.nodes.getStatus();
+    console.log('Aztec node health:', status, health);
+    return status === 'healthy';
+  }
+
+  // ABIs are parsed from the compiled artifacts on first use
+  getProfileRegistryAbi(): Promise<AztecContractABI> {
+    return loadContractAbi(this.artifacts.profileRegistry);
+  }
+
+  getPrivateSocialAbi(): Promise<AztecContractABI> {
+    return loadContractAbi(this.artifacts.privateSocial);
+  }
+
+  // Contract call descriptors, executed by a wallet (e.g. AzGuard) instead of the node
+  async registryCall(functionName: string, args: any[] = []): Promise<AztecContractCall> {
+    const abi = await this.getProfileRegistryAbi();
+    return { contractAddress: this.profileRegistryAddress, abi, functionName, args };
+  }
+
+  async socialCall(functionName: string, args: any[] = []): Promise<AztecContractCall> {
+    const abi = await this.getPrivateSocialAbi();
+    return { contractAddress: this.privateSocialAddress, abi, functionName, args };
   }
 
   // Profile Registry Contract Methods
-  async createProfile(usernameHash: string, tokenUriHash: string, from: string): Promise<any> {
+  // `usernameHash` comes from hashUsername() so it matches the availability check.
+  // Sends create_profile from `from` and waits for the receipt; the profile id is read back once mined
+  async createProfile(
+    usernameHash: string,
+    tokenUriHash: string,
+    from: string,
+    options: TransactionOptions = {}
+  ): Promise<CreateProfileResult> {
     try {
-      const result = await this.rpc.simulateTransaction(
-        this.profileRegistryAddress,
-        'create_profile',
-        [usernameHash, tokenUriHash]
-      );
+      if (!(await this.isUsernameAvailable(usernameHash))) {
+        throw new UsernameError('taken', 'Username is already taken');
+      }
+      await this.profileRegistry.methods.create_profile.simulate(usernameHash, tokenUriHash);
+      const tx = await this.profileRegistry.methods.create_profile.send(usernameHash, tokenUriHash, {
+        from,
+        fee: options.fee,
+        purpose: 'profile_creation'
+      });
+      const receipt = await tx.wait(options);
+
+      // The mined block invalidates the cache too, but the profile id is read before the next poll
+      if (receipt.status !== 'pending') this.invalidateReads(this.profileRegistryAddress);
+      if (receipt.status === 'reverted') {
+        throw new ContractRevertError(this.profileRegistryAddress, 'create_profile', receipt.revertReason ?? 'reverted');
+      }
       return {
-        transactionHash: '0x' + Math.random().toString(16).substring(2, 66),
-        profileId: Math.floor(Math.random() * 1000) + 1,
-        success: true
+        ...receipt,
+        transactionHash: receipt.txHash,
+        profileId: receipt.status === 'mined' ? await this.getProfileId(from) : undefined
       };
     } catch (error) {
       console.error('Profile creation failed:', error);
-      throw error;
+      throw error instanceof UsernameError ? error : toAztecError(error);
     }
   }
 
+  // Read methods throw typed AztecErrors (see aztec-errors.ts); wrap them in toResult() for a Result
   async hasProfile(user: string): Promise<boolean> {
-    try {
-      const result = await this.rpc.simulateTransaction(this.profileRegistryAddress, 'has_profile', [user]);
-      return Boolean(result);
-    } catch (error) {
-      console.error('Failed to check profile:', error);
-      return false;
-    }
+    return this.profileRegistry.methods.has_profile.simulate(user);
   }
 
   async getProfileId(user: string): Promise<string> {
-    try {
-      const result = await this.rpc.simulateTransaction(this.profileRegistryAddress, 'get_profile_id', [user]);
-      return result?.toString() || '0';
-    } catch (error) {
-      console.error('Failed to get profile ID:', error);
-      return '0';
-    }
+    return this.profileRegistry.methods.get_profile_id.simulate(user);
+  }
+
+  async isUsernameAvailable(usernameHash: string): Promise<boolean> {
+    return this.profileRegistry.methods.is_username_available.simulate(usernameHash);
+  }
+
+  // Normalizes and validates `username` before asking the registry, see aztec-username.ts
+  async checkUsername(username: string): Promise<UsernameAvailability> {
+    return checkUsername(username, this);
   }
 
   async getTotalProfiles(): Promise<number> {
+    const result = await this.profileRegistry.methods.get_total_profiles.simulate();
+    const total = Number(result);
+    if (!Number.isSafeInteger(total)) {
+      throw new DecodingError('get_total_profiles: value out of range', result);
+    }
+    return total;
+  }
+
+  // Everything about one profile, looked up by owner address or username.
+  // Profile id 0 is the registry's answer for "no profile". Against a registry without the
+  // per-profile getters (see OPTIONAL_REGISTRY_FUNCTIONS), address lookups still work but leave
+  // the hashes and metadata empty, and username lookups throw.
+  async getProfile(addressOrUsername: string): Promise<ProfileLookup> {
+    const query = addressOrUsername.trim();
+    const registry = this.profileRegistry;
+    let id: string;
+    let owner: string | undefined;
+
+    if (ADDRESS_PATTERN.test(query)) {
+      owner = query;
+      id = await this.getProfileId(query);
+    } else {
+      const validation = validateUsername(query);
+      if (!validation.valid) return { found: false, query, reason: 'invalid_username' };
+      await this.requireFunction(registry, OPTIONAL_REGISTRY_FUNCTIONS.profileIdByUsername, 'Looking up profiles by username');
+      await this.requireFunction(registry, OPTIONAL_REGISTRY_FUNCTIONS.profileOwner, 'Looking up profiles by username');
+      id = await this.readRegistryField(OPTIONAL_REGISTRY_FUNCTIONS.profileIdByUsername, await hashUsername(validation.username));
+    }
+    if (BigInt(id) === 0n) return { found: false, query, reason: 'no_profile' };
+
+    const hasHashGetters = (await Promise.all([
+      registry.supports(OPTIONAL_REGISTRY_FUNCTIONS.usernameHash),
+      registry.supports(OPTIONAL_REGISTRY_FUNCTIONS.tokenUriHash)
+    ])).every(Boolean);
+
+    // Issued together so they share one JSON-RPC batch
+    const [resolvedOwner, usernameHash, tokenUriHash, verifications] = await Promise.all([
+      owner ?? this.readRegistryField(OPTIONAL_REGISTRY_FUNCTIONS.profileOwner, id),
+      hasHashGetters ? this.readRegistryField(OPTIONAL_REGISTRY_FUNCTIONS.usernameHash, id) : null,
+      hasHashGetters ? this.readRegistryField(OPTIONAL_REGISTRY_FUNCTIONS.tokenUriHash, id) : null,
+      this.getProfileVerifications(id)
+    ]);
+
+    return {
+      found: true,
+      profile: {
+        id,
+        owner: resolvedOwner,
+        usernameHash,
+        tokenUriHash,
+        metadata: tokenUriHash === null ? null : await this.loadMetadata(tokenUriHash),
+        verifications: toVerificationFlags(verifications)
+      }
+    };
+  }
+
+  // One of the OPTIONAL_REGISTRY_FUNCTIONS, whose single result is a Field or address
+  private async readRegistryField(name: string, arg: string): Promise<string> {
+    const result = await (await this.profileRegistry.method(name)).simulate(arg);
+    if (typeof result !== 'string') {
+      throw new DecodingError(`${name}: expected a single field`, result);
+    }
+    return result;
+  }
+
+  // Throws when the deployed contract predates a function a feature needs
+  private async requireFunction<S extends readonly FunctionSignature[]>(
+    contract: ContractWrapper<S>,
+    name: string,
+    feature: string
+  ): Promise<void> {
+    if (!(await contract.supports(name))) {
+      throw new DecodingError(`${feature} needs ${name}, which the deployed contract at ${contract.contractAddress} does not have`);
+    }
+  }
+
+  // Missing or tampered metadata leaves the profile displayable without it
+  private async loadMetadata(tokenUriHash: string): Promise<ProfileMetadata | null> {
     try {
-      const result = await this.rpc.simulateTransaction(this.profileRegistryAddress, 'get_total_profiles', []);
-      return parseInt(result) || 0;
+      return await profileMetadataStore.load(tokenUriHash);
     } catch (error) {
-      console.error('Failed to get total profiles:', error);
-      return 0;
+      console.log(`Metadata ${tokenUriHash} unavailable:`, toAztecError(error).message);
+      return null;
     }
   }
 
+  // One result per user, in input order; a failed read does not fail the others
+  async getProfileIds(users: readonly string[], options: BatchReadOptions = {}): Promise<Result<string>[]> {
+    return readMany(users, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, user => this.getProfileId(user));
+  }
+
   // Private Social Contract Methods
   async getProfileVerifications(profileId: string): Promise<boolean[]> {
-    try {
-      const result = await this.rpc.simulateTransaction(this.privateSocialAddress, 'get_profile_verifications', [profileId]);
-      return Array.isArray(result) ? result : [false, false, false, false, false, false];
-    } catch (error) {
-      console.error('Failed to get profile verifications:', error);
-      return [false, false, false, false, false, false];
-    }
+    return this.privateSocial.methods.get_profile_verifications.simulate(profileId);
+  }
+
+  async getProfileVerificationsMany(profileIds: readonly string[], options: BatchReadOptions = {}): Promise<Result<boolean[]>[]> {
+    return readMany(profileIds, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, id => this.getProfileVerifications(id));
+  }
+
+  async getVerificationFlags(profileId: string): Promise<VerificationFlags> {
+    return toVerificationFlags(await this.getProfileVerifications(profileId));
+  }
+
+  // Per-provider getters read the shared flag array, which the read cache serves once per block
+  async isVerified(profileId: string, provider: VerificationProviderId): Promise<boolean> {
+    const flags = await this.getProfileVerifications(profileId);
+    return flags[getVerificationProvider(provider).slot] ?? false;
   }
 
   async isTwitterVerified(profileId: string): Promise<boolean> {
-    try {
-      const result = await this.rpc.simulateTransaction(this.privateSocialAddress, 'is_twitter_verified', [profileId]);
-      return Boolean(result);
-    } catch (error) {
-      console.error('Failed to check Twitter verification:', error);
-      return false;
-    }
+    return this.privateSocial.methods.is_twitter_verified.simulate(profileId);
   }
 
-  // Utility methods
-  private parseBoolean(result: any): boolean {
-    if (typeof result === 'boolean') return result;
-    if (typeof result === 'string') {
-      return result === 'true' || result === '1' || result === '0x01';
-    }
-    return false;
+  async isDiscordVerified(profileId: string): Promise<boolean> {
+    return this.isVerified(profileId, 'discord');
+  }
+
+  async isGithubVerified(profileId: string): Promise<boolean> {
+    return this.isVerified(profileId, 'github');
+  }
+
+  async isTelegramVerified(profileId: string): Promise<boolean> {
+    return this.isVerified(profileId, 'telegram');
+  }
+
+  async isEmailVerified(profileId: string): Promise<boolean> {
+    return this.isVerified(profileId, 'email');
+  }
+
+  async isPhoneVerified(profileId: string): Promise<boolean> {
+    return this.isVerified(profileId, 'phone');
   }
 
-  private parseField(result: any): string {
-    if (typeof result === 'string') return result;
-    if (typeof result === 'number') return result.toString();
-    return '0';
+  // False until PrivateSocial is redeployed with submit_verification; the UI can hide verification then
+  async supportsVerificationSubmission(): Promise<boolean> {
+    return this.privateSocial.supports('submit_verification');
   }
 
-  private parseVerificationArray(result: any): boolean[] {
-    if (Array.isArray(result)) {
-      return result.map(item => this.parseBoolean(item));
+  // Submits an attestation from AttestationService.requestAttestation() from the profile owner's
+  // account and waits for it to be mined
+  async submitVerification(
+    attestation: VerificationAttestation,
+    from: string,
+    options: TransactionOptions = {}
+  ): Promise<TxReceipt> {
+    if (attestation.expiresAt * 1000 <= Date.now()) {
+      throw new EncodingError('Verification attestation has expired', attestation.expiresAt);
+    }
+    const args = [
+      attestation.profileId,
+      getVerificationProvider(attestation.provider).slot,
+      attestation.identifierHash,
+      attestation.attester,
+      attestation.expiresAt,
+      attestation.signature
+    ] as const;
+
+    try {
+      await this.requireFunction(this.privateSocial, 'submit_verification', 'Submitting verifications');
+      // Not in PRIVATE_SOCIAL_SIGNATURES: its arguments are checked against the artifact's own ABI
+      const submit = await this.privateSocial.method('submit_verification');
+      await submit.simulate(...args);
+      const tx = await submit.send(...args, { from, fee: options.fee, purpose: 'verification' });
+      const receipt = await tx.wait(options);
+
+      if (receipt.status !== 'pending') this.invalidateReads(this.privateSocialAddress);
+      if (receipt.status === 'reverted') {
+        throw new ContractRevertError(this.privateSocialAddress, 'submit_verification', receipt.revertReason ?? 'reverted');
+      }
+      return receipt;
+    } catch (error) {
+      console.error(`${attestation.provider} verification failed:`, error);
+      throw toAztecError(error);
     }
-    // Fallback: return 6 random boolean values for testing
-    return Array.from({ length: 6 }, () => Math.random() > 0.5);
   }
 
-  // Hash utility for username hashing
+  // SHA-256 hex digest; usernames are hashed with hashUsername() instead
   async hashString(input: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(input);
@@ -350,9 +698,7 @@ export class AztecContractClient {
   }
 }
 
-// Export configured client
-export const aztecContracts = new AztecContractClient(
-  'https://aztec-alpha-testnet-fullnode.zkv.xyz',
-  '0x2ec8bbff14a6b5347b3db46dcd1544abf99e9546839a740b9e37b648bc5e176f',
-  '0x227e0e81083bfed7a1e0458b89645f49b510a5fe59f8766581cbc3277f91b264'
-);
\ No newline at end of file
+// Export configured client, kept on the active network profile
+export const aztecContracts = new AztecContractClient(aztecNetwork.getActiveNetwork());
+aztecNetwork.on('changed', network => aztecContracts.setNetwork(network));
+transactionTracker.on('updated', () => aztecContracts.invalidateReads());
\ No newline at end of file
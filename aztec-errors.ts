@@ -0,0 +1,154 @@
+// Typed error taxonomy shared by the contract client and all wallet modules
+// Lets the UI tell "user has no profile" apart from "node is down"
+
+export type AztecErrorKind = 'network' | 'rpc' | 'revert' | 'encoding' | 'decoding' | 'user_rejected' | 'sponsorship_refused' | 'internal';
+
+export abstract class AztecError extends Error {
+  abstract readonly kind: AztecErrorKind;
+
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Node unreachable, HTTP failure or timeout. `transient` errors are worth retrying.
+export class NetworkError extends AztecError {
+  readonly kind = 'network' as const;
+
+  constructor(message: string, readonly status?: number, readonly transient: boolean = true, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+// The node answered with a JSON-RPC error object
+export class RpcError extends AztecError {
+  readonly kind = 'rpc' as const;
+
+  constructor(readonly method: string, readonly code: number, message: string, readonly data?: unknown) {
+    super(`${method}: ${message} (code ${code})`);
+  }
+}
+
+export class ContractRevertError extends AztecError {
+  readonly kind = 'revert' as const;
+
+  constructor(
+    readonly contractAddress: string,
+    readonly functionName: string,
+    readonly reason: string,
+    cause?: unknown
+  ) {
+    super(`${functionName} reverted: ${reason}`, cause);
+  }
+}
+
+// An argument does not fit the ABI type it is encoded as
+export class EncodingError extends AztecError {
+  readonly kind = 'encoding' as const;
+
+  constructor(message: string, readonly value?: unknown) {
+    super(message);
+  }
+}
+
+export class DecodingError extends AztecError {
+  readonly kind = 'decoding' as const;
+
+  constructor(message: string, readonly value?: unknown) {
+    super(message);
+  }
+}
+
+export class UserRejectedError extends AztecError {
+  readonly kind = 'user_rejected' as const;
+
+  constructor(message: string = 'User rejected the request', cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+// The fee payer declined to sponsor the transaction, which was therefore not accepted
+export class SponsorshipRefusedError extends AztecError {
+  readonly kind = 'sponsorship_refused' as const;
+
+  constructor(readonly feePayer: string, message: string, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+// Anything thrown that is not a node or wallet error: a bug, a failed precondition, a library exception
+export class InternalError extends AztecError {
+  readonly kind = 'internal' as const;
+
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+export type Result<T, E = AztecError> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+const REVERT_PATTERN = /revert|assertion failed|failed assertion/i;
+
+// Wallet provider error code for a request the user declined (EIP-1193)
+export const USER_REJECTED_CODE = 4001;
+
+// Classify anything thrown by the transport or a client into the taxonomy
+export function toAztecError(error: unknown, method: string = 'unknown'): AztecError {
+  if (error instanceof AztecError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new NetworkError('Request aborted', undefined, false, error);
+  }
+  if (isRpcErrorObject(error)) {
+    return new RpcError(method, error.code, error.message, error.data);
+  }
+  return new InternalError(message, error);
+}
+
+// A JSON-RPC style error object, as rejected by a node client or wallet provider
+function isRpcErrorObject(error: unknown): error is { code: number; message: string; data?: unknown } {
+  const candidate = error as { code?: unknown; message?: unknown } | null | undefined;
+  return typeof candidate?.code === 'number' && typeof candidate.message === 'string';
+}
+
+// For errors thrown by fetch() itself, which rejects with a TypeError when the network is unreachable
+export function toFetchError(error: unknown): AztecError {
+  if (error instanceof TypeError) {
+    return new NetworkError(`Network unreachable: ${error.message}`, undefined, true, error);
+  }
+  return toAztecError(error);
+}
+
+// For errors reported by a wallet; only its rejection code means the user declined
+export function toWalletError(error: unknown, method: string = 'unknown'): AztecError {
+  if ((error as { code?: unknown } | null | undefined)?.code === USER_REJECTED_CODE) {
+    return new UserRejectedError(error instanceof Error ? error.message : undefined, error);
+  }
+  // Wallets report some failures as bare strings
+  if (typeof error === 'string') {
+    return new RpcError(method, -32603, error);
+  }
+  return toAztecError(error, method);
+}
+
+// Simulation and send failures carrying a revert reason become ContractRevertError
+export function toContractError(error: unknown, contractAddress: string, functionName: string): AztecError {
+  const aztecError = toAztecError(error);
+  if ((aztecError instanceof RpcError || aztecError instanceof InternalError) && REVERT_PATTERN.test(aztecError.message)) {
+    return new ContractRevertError(contractAddress, functionName, aztecError.message, aztecError);
+  }
+  return aztecError;
+}
+
+export async function toResult<T>(operation: () => Promise<T>): Promise<Result<T>> {
+  try {
+    return { ok: true, value: await operation() };
+  } catch (error) {
+    return { ok: false, error: toAztecError(error) };
+  }
+}
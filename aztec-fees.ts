@@ -0,0 +1,205 @@
+// Fee payment methods
+// Every transaction names who pays its fee: the network's sponsored FPC (fee payment contract),
+// the sender itself in fee juice, or an FPC that takes a token privately or publicly in exchange.
+// A send may name fallback methods, tried in turn only when the sponsor refuses; paying for
+// itself is never chosen on the sender's behalf.
+// Gas limits come from simulating the call first, padded by a safety margin.
+
+import { AztecError, DecodingError, EncodingError, NetworkError, SponsorshipRefusedError, UserRejectedError } from './aztec-errors';
+import type { NetworkProfile } from './aztec-network';
+
+export type FeePaymentMethod =
+  | { type: 'sponsored'; fpcAddress?: string }                                   // defaults to the network's sponsored FPC
+  | { type: 'fee_juice'; payer?: string }                                        // defaults to the sender
+  | { type: 'fpc'; mode: 'private' | 'public'; fpcAddress: string; asset: string };
+
+export interface FeeOptions {
+  paymentMethod?: FeePaymentMethod;        // sponsored when unset
+  fallbackMethods?: FeePaymentMethod[];    // tried in order when sponsorship is refused; none by default
+  gasMargin?: number;                      // extra gas on top of the simulated usage, 0.1 = 10%
+}
+
+export interface GasLimits {
+  daGas: number;
+  l2Gas: number;
+}
+
+// Fee juice per unit of gas, as decimal strings
+export interface GasFees {
+  feePerDaGas: string;
+  feePerL2Gas: string;
+}
+
+export interface GasSettings {
+  gasLimits: GasLimits;
+  teardownGasLimits: GasLimits;
+  maxFeesPerGas: GasFees;
+}
+
+export interface FeeEstimate {
+  paymentMethod: FeePaymentMethod;
+  feePayer: string;
+  gasUsed: GasLimits;              // as simulated, teardown included
+  gasSettings: GasSettings;        // limits with the margin applied, sent with the transaction
+  estimatedFee: string;            // fee juice at current base fees for the simulated usage
+  maxFee: string;                  // upper bound the transaction may be charged
+  paidBySender: boolean;           // false when a sponsor covers it
+}
+
+export const DEFAULT_GAS_MARGIN = 0.1;
+
+// Fee section of a transaction payload
+export interface FeePayload {
+  method: 'sponsored_fpc' | 'fee_juice' | 'private_fpc' | 'public_fpc';
+  feePayer: string;
+  assetAddress?: string;   // token paid to the FPC
+  gasSettings?: GasSettings;
+}
+
+// Nodes have no dedicated error code for a refused sponsorship; it surfaces in one of two ways.
+// The node rejects a transaction whose fee payer cannot cover it with this reason
+// (TX_ERROR_INSUFFICIENT_FEE_PAYER_BALANCE in aztec-packages yarn-project/stdlib/src/tx/validator/error_texts.ts),
+// and an FPC that declines in its setup phase fails the simulation with an error naming its address.
+const INSUFFICIENT_FEE_PAYER_BALANCE = /insufficient fee payer balance/i;
+
+export function describeFeePaymentMethod(method: FeePaymentMethod): string {
+  switch (method.type) {
+    case 'sponsored':
+      return 'sponsored';
+    case 'fee_juice':
+      return 'fee juice';
+    case 'fpc':
+      return `${method.mode} FPC`;
+  }
+}
+
+export function feePaymentChain(options: FeeOptions = {}): FeePaymentMethod[] {
+  return [options.paymentMethod ?? { type: 'sponsored' }, ...(options.fallbackMethods ?? [])];
+}
+
+export function buildFeePayload(method: FeePaymentMethod, network: NetworkProfile, sender: string): FeePayload {
+  switch (method.type) {
+    case 'sponsored': {
+      const fpcAddress = method.fpcAddress || network.sponsoredFpcAddress;
+      if (!fpcAddress) {
+        throw new EncodingError(`${network.name} has no sponsored FPC configured`);
+      }
+      return { method: 'sponsored_fpc', feePayer: fpcAddress };
+    }
+    case 'fee_juice':
+      return { method: 'fee_juice', feePayer: method.payer || sender };
+    case 'fpc':
+      return { method: `${method.mode}_fpc`, feePayer: method.fpcAddress, assetAddress: method.asset };
+  }
+}
+
+function parseGas(raw: any, label: string): GasLimits {
+  const daGas = Number(raw?.daGas);
+  const l2Gas = Number(raw?.l2Gas);
+  if (!Number.isSafeInteger(daGas) || !Number.isSafeInteger(l2Gas) || daGas < 0 || l2Gas < 0) {
+    throw new DecodingError(`Invalid ${label} returned by node`, raw);
+  }
+  return { daGas, l2Gas };
+}
+
+// gasUsed of a simulation result: { totalGas, teardownGas }
+export function parseGasUsed(raw: any): { total: GasLimits; teardown: GasLimits } {
+  return {
+    total: parseGas(raw?.gasUsed?.totalGas, 'gas usage'),
+    teardown: raw?.gasUsed?.teardownGas ? parseGas(raw.gasUsed.teardownGas, 'teardown gas usage') : { daGas: 0, l2Gas: 0 }
+  };
+}
+
+export function parseGasFees(raw: any): GasFees {
+  try {
+    return { feePerDaGas: BigInt(raw.feePerDaGas).toString(), feePerL2Gas: BigInt(raw.feePerL2Gas).toString() };
+  } catch (error) {
+    throw new DecodingError('Invalid base fees returned by node', raw);
+  }
+}
+
+// Rounded before ceil so float noise (100 * 1.1 = 110.00000000000001) does not add a unit
+const padGas = (gas: number, margin: number): number => Math.ceil(Number((gas * (1 + margin)).toFixed(6)));
+
+const pad = (gas: GasLimits, margin: number): GasLimits => ({
+  daGas: padGas(gas.daGas, margin),
+  l2Gas: padGas(gas.l2Gas, margin)
+});
+
+// Base fees can rise between estimation and inclusion, max fees allow 50% on top
+const withHeadroom = (fee: string): string => (BigInt(fee) * 3n / 2n).toString();
+
+const feeFor = (gas: GasLimits, fees: GasFees): bigint =>
+  BigInt(gas.daGas) * BigInt(fees.feePerDaGas) + BigInt(gas.l2Gas) * BigInt(fees.feePerL2Gas);
+
+export function buildFeeEstimate(
+  method: FeePaymentMethod,
+  fee: FeePayload,
+  gasUsed: { total: GasLimits; teardown: GasLimits },
+  baseFees: GasFees,
+  margin: number = DEFAULT_GAS_MARGIN
+): FeeEstimate {
+  if (!(margin >= 0)) {
+    throw new EncodingError('Gas margin must be a non-negative number', margin);
+  }
+  const maxFeesPerGas: GasFees = {
+    feePerDaGas: withHeadroom(baseFees.feePerDaGas),
+    feePerL2Gas: withHeadroom(baseFees.feePerL2Gas)
+  };
+  const gasSettings: GasSettings = {
+    gasLimits: pad(gasUsed.total, margin),
+    teardownGasLimits: pad(gasUsed.teardown, margin),
+    maxFeesPerGas
+  };
+  return {
+    paymentMethod: method,
+    feePayer: fee.feePayer,
+    gasUsed: gasUsed.total,
+    gasSettings,
+    estimatedFee: feeFor(gasUsed.total, baseFees).toString(),
+    maxFee: feeFor(gasSettings.gasLimits, maxFeesPerGas).toString(),
+    paidBySender: fee.method !== 'sponsored_fpc'
+  };
+}
+
+// A sponsored send's failure as a SponsorshipRefusedError when the FPC declined, unchanged otherwise.
+// Unreachable nodes and rejected wallet prompts say nothing about the sponsor.
+export function toSponsorshipError(error: unknown, fee: FeePayload): unknown {
+  if (fee.method !== 'sponsored_fpc' || error instanceof NetworkError || error instanceof UserRejectedError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  if (INSUFFICIENT_FEE_PAYER_BALANCE.test(message) || message.toLowerCase().includes(fee.feePayer.toLowerCase())) {
+    return new SponsorshipRefusedError(fee.feePayer, message, error);
+  }
+  return error;
+}
+
+// Sends with each payment method in turn; only a refused sponsorship moves on to the next one
+export async function payWithFallback<T>(
+  options: FeeOptions,
+  network: NetworkProfile,
+  sender: string,
+  send: (fee: FeePayload, method: FeePaymentMethod) => Promise<T>
+): Promise<T> {
+  const methods = feePaymentChain(options);
+  let lastError: unknown;
+
+  for (const [index, method] of methods.entries()) {
+    let fee: FeePayload | null = null;
+    try {
+      fee = buildFeePayload(method, network, sender);
+      return await send(fee, method);
+    } catch (caught) {
+      const error = fee ? toSponsorshipError(caught, fee) : caught;
+      // No payload means the network has no sponsor configured, which counts as a refusal
+      const refused = (fee === null && method.type === 'sponsored') || error instanceof SponsorshipRefusedError;
+      if (!refused || index === methods.length - 1) throw error;
+      lastError = error;
+      console.log(
+        `Sponsorship refused (${error instanceof AztecError ? error.message : error}), paying with ${describeFeePaymentMethod(methods[index + 1])}...`
+      );
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,256 @@
+// Network profiles
+// Every endpoint and contract address used by the clients comes from the active profile, which
+// can be switched at runtime. A profile must name every endpoint and address before it can be
+// selected, and is checked against the node's pxe_getNodeInfo before use
+
+import { NetworkError } from './aztec-errors';
+import { getNodePool, parseNodeInfo, stopNodePool, type NodeInfo } from './aztec-node-pool';
+
+export type NetworkId = 'sandbox' | 'alpha-testnet' | 'custom';
+
+export interface NetworkContracts {
+  profileRegistry: string;
+  privateSocial: string;
+}
+
+export interface NetworkProfile {
+  id: NetworkId;
+  name: string;
+  rpcUrl: string;
+  fallbackRpcUrls?: string[]; // tried in turn when rpcUrl stops responding
+  l1ChainId: number;          // chain the rollup settles on, e.g. 11155111 for Sepolia
+  chainId?: number;           // Aztec chain id (rollup version); learned from the node when unset
+  contracts: NetworkContracts;
+  sponsoredFpcAddress?: string; // only needed to pay fees through the sponsored FPC
+  explorerUrl?: string;
+}
+
+export type { NodeInfo };
+
+export interface NetworkManagerEvents {
+  changed: (network: NetworkProfile) => void;
+}
+
+export type NetworkManagerEvent = keyof NetworkManagerEvents;
+
+const env = import.meta.env;
+const NETWORK_STORAGE_KEY = 'aztlan.network';
+
+const envNumber = (value: string | undefined): number | undefined =>
+  value && Number.isSafeInteger(Number(value)) ? Number(value) : undefined;
+
+const envList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export const NETWORK_PROFILES: Record<NetworkId, NetworkProfile> = {
+  sandbox: {
+    id: 'sandbox',
+    name: 'Local Sandbox',
+    rpcUrl: env.VITE_AZTEC_SANDBOX_RPC_URL || 'http://localhost:8080',
+    l1ChainId: 31337,
+    contracts: {
+      profileRegistry: env.VITE_AZTEC_SANDBOX_PROFILE_REGISTRY_ADDRESS || '',
+      privateSocial: env.VITE_AZTEC_SANDBOX_PRIVATE_SOCIAL_ADDRESS || ''
+    },
+    sponsoredFpcAddress: env.VITE_AZTEC_SANDBOX_SPONSORED_FPC_ADDRESS || ''
+  },
+  'alpha-testnet': {
+    id: 'alpha-testnet',
+    name: 'Aztec Alpha Testnet',
+    rpcUrl: 'https://aztec-alpha-testnet-fullnode.zkv.xyz',
+    fallbackRpcUrls: envList(env.VITE_AZTEC_FALLBACK_RPC_URLS),
+    l1ChainId: 11155111,
+    contracts: {
+      profileRegistry: env.VITE_AZTEC_PROFILE_REGISTRY_ADDRESS || '0x2ec8bbff14a6b5347b3db46dcd1544abf99e9546839a740b9e37b648bc5e176f',
+      privateSocial: env.VITE_AZTEC_PRIVATE_SOCIAL_ADDRESS || '0x227e0e81083bfed7a1e0458b89645f49b510a5fe59f8766581cbc3277f91b264'
+    },
+    sponsoredFpcAddress: '0x1260a43ecf03e985727affbbe3e483e60b836ea821b6305bea1c53398b986047',
+    explorerUrl: 'https://aztec-explorer.xyz'
+  },
+  custom: {
+    id: 'custom',
+    name: 'Custom Node',
+    rpcUrl: env.VITE_AZTEC_RPC_URL || '',
+    fallbackRpcUrls: envList(env.VITE_AZTEC_CUSTOM_FALLBACK_RPC_URLS),
+    l1ChainId: envNumber(env.VITE_AZTEC_L1_CHAIN_ID) ?? 0,
+    chainId: envNumber(env.VITE_AZTEC_CHAIN_ID),
+    contracts: {
+      profileRegistry: env.VITE_AZTEC_CUSTOM_PROFILE_REGISTRY_ADDRESS || '',
+      privateSocial: env.VITE_AZTEC_CUSTOM_PRIVATE_SOCIAL_ADDRESS || ''
+    },
+    sponsoredFpcAddress: env.VITE_AZTEC_CUSTOM_SPONSORED_FPC_ADDRESS || '',
+    explorerUrl: env.VITE_AZTEC_EXPLORER_URL
+  }
+};
+
+const DEFAULT_NETWORK: NetworkId = (env.VITE_AZTEC_NETWORK as NetworkId) in NETWORK_PROFILES
+  ? env.VITE_AZTEC_NETWORK as NetworkId
+  : 'alpha-testnet';
+
+// Throws a NetworkError naming every missing or malformed field, so an incomplete profile never
+// sends empty addresses to a node. The sponsored FPC is optional but must be well formed if set.
+export function validateNetworkProfile(network: NetworkProfile): NetworkProfile {
+  const problems: string[] = [];
+  if (!network.rpcUrl) problems.push('RPC URL');
+  if (!(network.l1ChainId > 0)) problems.push('L1 chain id');
+
+  const addresses: Record<string, string> = {
+    'ProfileRegistry address': network.contracts.profileRegistry,
+    'PrivateSocial address': network.contracts.privateSocial
+  };
+  for (const [label, address] of Object.entries(addresses)) {
+    if (!ADDRESS_PATTERN.test(address ?? '')) problems.push(label);
+  }
+  if (network.sponsoredFpcAddress && !ADDRESS_PATTERN.test(network.sponsoredFpcAddress)) {
+    problems.push('sponsored FPC address');
+  }
+
+  if (problems.length > 0) {
+    throw new NetworkError(`${network.name} is not configured: missing or invalid ${problems.join(', ')}`, undefined, false);
+  }
+  return network;
+}
+
+export function explorerTxUrl(network: NetworkProfile, txHash: string): string | undefined {
+  return network.explorerUrl ? `${network.explorerUrl.replace(/\/+$/, '')}/tx/${txHash}` : undefined;
+}
+
+export class AztecNetworkManager {
+  private activeId: NetworkId;
+  private custom: NetworkProfile;
+  private validated: Promise<NodeInfo> | null = null;
+  private listeners: { [E in NetworkManagerEvent]: Set<NetworkManagerEvents[E]> } = {
+    changed: new Set()
+  };
+
+  constructor() {
+    const stored = this.load();
+    this.custom = { ...NETWORK_PROFILES.custom, ...stored?.custom, id: 'custom' };
+    this.activeId = stored?.id && stored.id in NETWORK_PROFILES ? stored.id : DEFAULT_NETWORK;
+
+    // A stored selection may have been complete under an earlier build's configuration
+    if (this.activeId !== DEFAULT_NETWORK) {
+      try {
+        validateNetworkProfile(this.getActiveNetwork());
+      } catch (error) {
+        console.log(`Stored network selection is unusable, using ${DEFAULT_NETWORK}:`, (error as Error).message);
+        this.activeId = DEFAULT_NETWORK;
+      }
+    }
+  }
+
+  getActiveNetwork(): NetworkProfile {
+    return this.getNetwork(this.activeId);
+  }
+
+  getNetwork(id: NetworkId): NetworkProfile {
+    return id === 'custom' ? this.custom : NETWORK_PROFILES[id];
+  }
+
+  listNetworks(): NetworkProfile[] {
+    return (Object.keys(NETWORK_PROFILES) as NetworkId[]).map(id => this.getNetwork(id));
+  }
+
+  // Switch networks; `custom` overrides the custom profile's fields and is persisted with it.
+  // An incomplete profile is refused and the previous selection stays active.
+  selectNetwork(id: NetworkId, custom?: Partial<Omit<NetworkProfile, 'id'>>): NetworkProfile {
+    if (custom && id !== 'custom') {
+      throw new Error('Only the custom network can be reconfigured');
+    }
+    const selected: NetworkProfile = custom
+      ? {
+          ...this.custom,
+          ...custom,
+          contracts: { ...this.custom.contracts, ...custom.contracts },
+          id: 'custom'
+        }
+      : this.getNetwork(id);
+    validateNetworkProfile(selected);
+
+    stopNodePool(this.getActiveNetwork());
+    if (custom) this.custom = selected;
+    this.activeId = id;
+    this.validated = null;
+    this.save();
+
+    const network = this.getActiveNetwork();
+    console.log('Active Aztec network:', network.name, network.rpcUrl);
+    this.emit('changed', network);
+    return network;
+  }
+
+  // Checks once per selection that the node serves the chain the profile describes
+  connect(): Promise<NodeInfo> {
+    if (!this.validated) {
+      const validation = this.validate(this.getActiveNetwork());
+      validation.catch(() => {
+        if (this.validated === validation) this.validated = null;
+      });
+      this.validated = validation;
+    }
+    return this.validated;
+  }
+
+  on<E extends NetworkManagerEvent>(event: E, handler: NetworkManagerEvents[E]): () => void {
+    this.listeners[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends NetworkManagerEvent>(event: E, handler: NetworkManagerEvents[E]): void {
+    this.listeners[event].delete(handler);
+  }
+
+  private async validate(network: NetworkProfile): Promise<NodeInfo> {
+    validateNetworkProfile(network);
+
+    const nodeInfo = parseNodeInfo(await getNodePool(network).request('pxe_getNodeInfo'));
+    if (nodeInfo.l1ChainId !== network.l1ChainId) {
+      throw new NetworkError(
+        `Node at ${network.rpcUrl} settles on L1 chain ${nodeInfo.l1ChainId}, expected ${network.l1ChainId} for ${network.name}`,
+        undefined,
+        false
+      );
+    }
+    if (network.chainId !== undefined && nodeInfo.rollupVersion !== network.chainId) {
+      throw new NetworkError(
+        `Node at ${network.rpcUrl} runs rollup version ${nodeInfo.rollupVersion}, expected ${network.chainId} for ${network.name}`,
+        undefined,
+        false
+      );
+    }
+
+    console.log(`✓ Connected to ${network.name}`, nodeInfo);
+    return nodeInfo;
+  }
+
+  private emit<E extends NetworkManagerEvent>(event: E, network: NetworkProfile): void {
+    this.listeners[event].forEach(handler => {
+      try {
+        handler(network);
+      } catch (error) {
+        console.error(`Network ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  private load(): { id: NetworkId; custom?: Partial<NetworkProfile> } | null {
+    try {
+      const raw = localStorage.getItem(NETWORK_STORAGE_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(NETWORK_STORAGE_KEY, JSON.stringify({ id: this.activeId, custom: this.custom }));
+    } catch (error) {
+      console.log('Unable to persist network selection:', error);
+    }
+  }
+}
+
+export const aztecNetwork = new AztecNetworkManager();
@@ -0,0 +1,297 @@
+// Multi-endpoint Aztec node pool
+// Health-checks every endpoint of a network (node info, block height, latency), routes requests
+// to the healthiest node and fails over to the next one when a node stops responding. Transaction
+// submissions only fail over when the node refused the connection, so a send reaches one node.
+
+import { DecodingError, NetworkError, toAztecError } from './aztec-errors';
+import type { NetworkProfile } from './aztec-network';
+import {
+  getJsonRpcTransport,
+  isIdempotent,
+  type JsonRpcBatchResult,
+  type JsonRpcCall,
+  type JsonRpcRequestOptions,
+  type JsonRpcTransport,
+  type RpcTransport
+} from './json-rpc-transport';
+
+export type NodeStatus = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface NodeInfo {
+  nodeVersion?: string;
+  l1ChainId: number;
+  rollupVersion: number;
+}
+
+export interface NodeHealth {
+  url: string;
+  status: NodeStatus;
+  latency?: number;        // ms, smoothed over recent requests
+  blockNumber?: number;
+  nodeInfo?: NodeInfo;
+  lastChecked?: number;
+  lastError?: string;
+  consecutiveFailures: number;
+}
+
+export interface NodePoolEvents {
+  healthChanged: (health: NodeHealth[]) => void;
+}
+
+export type NodePoolEvent = keyof NodePoolEvents;
+
+const HEALTH_CHECK_INTERVAL = 30000;
+const HEALTH_CHECK_TIMEOUT = 5000;
+const MAX_BLOCK_LAG = 5;           // blocks behind the best node before a node counts as degraded
+const FAILURES_BEFORE_DOWN = 2;
+const LATENCY_SMOOTHING = 0.3;
+
+const STATUS_RANK: Record<NodeStatus, number> = {
+  healthy: 0,
+  unknown: 1,
+  degraded: 2,
+  down: 3
+};
+
+export function parseNodeInfo(raw: any): NodeInfo {
+  const l1ChainId = Number(raw?.l1ChainId);
+  const rollupVersion = Number(raw?.rollupVersion);
+  if (!Number.isSafeInteger(l1ChainId) || !Number.isSafeInteger(rollupVersion)) {
+    throw new DecodingError('Invalid node info returned by node', raw);
+  }
+  return { nodeVersion: raw.nodeVersion, l1ChainId, rollupVersion };
+}
+
+// Node fetch reports a refused connection as the cause of its TypeError; browsers give no detail,
+// so there a failed send is never retried on another node
+function isConnectionRefused(error: NetworkError): boolean {
+  const cause = error.cause as { cause?: { code?: unknown } } | undefined;
+  return error.status === undefined && cause instanceof TypeError && cause.cause?.code === 'ECONNREFUSED';
+}
+
+const networkUrls = (network: NetworkProfile): string[] =>
+  Array.from(new Set([network.rpcUrl, ...(network.fallbackRpcUrls ?? [])].filter(Boolean)));
+
+interface PoolNode {
+  transport: JsonRpcTransport;
+  health: NodeHealth;
+}
+
+export class AztecNodePool implements RpcTransport {
+  private nodes: PoolNode[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listeners: { [E in NodePoolEvent]: Set<NodePoolEvents[E]> } = {
+    healthChanged: new Set()
+  };
+
+  constructor(private network: NetworkProfile, urls: string[] = networkUrls(network)) {
+    if (urls.length === 0) {
+      throw new NetworkError(`${network.name} has no RPC URL configured`, undefined, false);
+    }
+    this.nodes = urls.map(url => {
+      const transport = getJsonRpcTransport(url);
+      return { transport, health: { url: transport.url, status: 'unknown', consecutiveFailures: 0 } };
+    });
+  }
+
+  async request<T = any>(method: string, params: unknown = [], options: JsonRpcRequestOptions = {}): Promise<T> {
+    return this.route(
+      method,
+      (transport, routeOptions) => transport.request<T>(method, params, routeOptions),
+      options,
+      isIdempotent(method, options)
+    );
+  }
+
+  async batch<T = any>(calls: JsonRpcCall[], options: JsonRpcRequestOptions = {}): Promise<JsonRpcBatchResult<T>[]> {
+    return this.route(
+      `batch(${calls.length})`,
+      (transport, routeOptions) => transport.batch<T>(calls, routeOptions),
+      options,
+      isIdempotent(calls, options)
+    );
+  }
+
+  getHealth(): NodeHealth[] {
+    return this.nodes.map(node => ({ ...node.health }));
+  }
+
+  // Overall status for the UI: the status of the best node, so down only when every node is
+  getStatus(): NodeStatus {
+    return this.rank()[0]?.health.status ?? 'down';
+  }
+
+  // Probe every node: node info must match the network, block height must keep up with the best node
+  async checkHealth(): Promise<NodeHealth[]> {
+    await Promise.all(this.nodes.map(node => this.probe(node)));
+
+    const heights = this.nodes.map(node => node.health.blockNumber ?? -1);
+    const bestHeight = Math.max(...heights);
+    for (const node of this.nodes) {
+      const { health } = node;
+      if (health.status === 'healthy' && health.blockNumber !== undefined && bestHeight - health.blockNumber > MAX_BLOCK_LAG) {
+        health.status = 'degraded';
+        health.lastError = `${bestHeight - health.blockNumber} blocks behind`;
+      }
+    }
+
+    this.emit();
+    return this.getHealth();
+  }
+
+  // Periodic health checks; the first one runs immediately. Called by the first request.
+  start(interval: number = HEALTH_CHECK_INTERVAL): void {
+    if (this.timer) return;
+    void this.checkHealth();
+    this.timer = setInterval(() => void this.checkHealth(), interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  on<E extends NodePoolEvent>(event: E, handler: NodePoolEvents[E]): () => void {
+    this.listeners[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends NodePoolEvent>(event: E, handler: NodePoolEvents[E]): void {
+    this.listeners[event].delete(handler);
+  }
+
+  // Try nodes from healthiest to least healthy; only network failures move on to the next node,
+  // an RPC error means the node answered and is returned as-is. A non-idempotent request may
+  // already have reached the node, so it only moves on when the connection was refused.
+  private async route<T>(
+    label: string,
+    send: (transport: JsonRpcTransport, options: JsonRpcRequestOptions) => Promise<T>,
+    options: JsonRpcRequestOptions,
+    idempotent: boolean
+  ): Promise<T> {
+    this.start();
+    const candidates = this.rank();
+    if (candidates.length === 0) {
+      throw new NetworkError(`No node serving ${this.network.name} is available`, undefined, false);
+    }
+
+    // With somewhere to fail over to, retrying the same node only delays the request
+    const routeOptions = candidates.length > 1 ? { retries: 0, ...options } : options;
+    let lastError: unknown;
+
+    for (const node of candidates) {
+      const started = Date.now();
+      try {
+        const result = await send(node.transport, routeOptions);
+        this.recordSuccess(node, Date.now() - started);
+        return result;
+      } catch (error) {
+        if (!(error instanceof NetworkError) || options.signal?.aborted) throw error;
+        this.recordFailure(node, error);
+        if (!idempotent && !isConnectionRefused(error)) throw error;
+        lastError = error;
+        console.log(`${label} failed on ${node.health.url}, failing over...`);
+      }
+    }
+    throw lastError;
+  }
+
+  // Routable nodes, best first; a node on the wrong chain answers fine but is never routed to
+  private rank(): PoolNode[] {
+    return this.nodes.filter(node => !this.servesOtherChain(node.health)).sort((a, b) =>
+      STATUS_RANK[a.health.status] - STATUS_RANK[b.health.status] ||
+      (a.health.latency ?? Infinity) - (b.health.latency ?? Infinity)
+    );
+  }
+
+  private async probe(node: PoolNode): Promise<void> {
+    const options = { timeout: HEALTH_CHECK_TIMEOUT, retries: 0 };
+    const started = Date.now();
+    try {
+      const [rawInfo, rawBlock] = await Promise.all([
+        node.transport.request('pxe_getNodeInfo', [], options),
+        node.transport.request('aztec_getBlockNumber', [], options)
+      ]);
+      const nodeInfo = parseNodeInfo(rawInfo);
+      const blockNumber = Number(rawBlock);
+      if (!Number.isSafeInteger(blockNumber) || blockNumber < 0) {
+        throw new DecodingError('Invalid block number returned by node', rawBlock);
+      }
+
+      node.health = {
+        ...node.health,
+        nodeInfo,
+        blockNumber,
+        lastChecked: Date.now(),
+        lastError: undefined
+      };
+      this.recordSuccess(node, Date.now() - started);
+      if (this.servesOtherChain(node.health)) {
+        node.health.lastError = `Serves L1 chain ${nodeInfo.l1ChainId}, expected ${this.network.l1ChainId}`;
+      }
+    } catch (error) {
+      node.health.lastChecked = Date.now();
+      this.recordFailure(node, error);
+    }
+  }
+
+  private recordSuccess(node: PoolNode, latency: number): void {
+    const { health } = node;
+    const previous = health.status;
+    health.latency = health.latency === undefined
+      ? latency
+      : Math.round(health.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING);
+    health.consecutiveFailures = 0;
+    // Kept down so the UI shows it; rank() leaves it out
+    health.status = this.servesOtherChain(health) ? 'down' : 'healthy';
+    if (health.status !== previous) this.emit();
+  }
+
+  private servesOtherChain(health: NodeHealth): boolean {
+    return !!health.nodeInfo && health.nodeInfo.l1ChainId !== this.network.l1ChainId;
+  }
+
+  private recordFailure(node: PoolNode, error: unknown): void {
+    const { health } = node;
+    const previous = health.status;
+    health.consecutiveFailures++;
+    health.lastError = toAztecError(error).message;
+    health.status = health.consecutiveFailures >= FAILURES_BEFORE_DOWN ? 'down' : 'degraded';
+    if (health.status !== previous) this.emit();
+  }
+
+  private emit(): void {
+    const health = this.getHealth();
+    this.listeners.healthChanged.forEach(handler => {
+      try {
+        handler(health);
+      } catch (error) {
+        console.error('Node pool healthChanged handler failed:', error);
+      }
+    });
+  }
+}
+
+const pools = new Map<string, AztecNodePool>();
+
+const poolKey = (network: NetworkProfile) => `${network.id}|${networkUrls(network).join(',')}`;
+
+// One pool per network endpoint set, shared by every client on that network. Health checks
+// start with a pool's first request, so handing one out costs nothing, and run until stop()ped,
+// e.g. when another network is selected.
+export function getNodePool(network: NetworkProfile): AztecNodePool {
+  const key = poolKey(network);
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new AztecNodePool(network);
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+// Stop health checks for a network the app no longer uses; they resume with the pool's next request
+export function stopNodePool(network: NetworkProfile): void {
+  pools.get(poolKey(network))?.stop();
+}
@@ -0,0 +1,108 @@
+// Block-aware cache for contract reads
+// View results can only change when a new block lands, so simulations are cached per
+// contract/function/arguments until the node reports a new block or we send a transaction
+// ourselves. Identical reads issued while one is in flight share its result.
+
+const BLOCK_POLL_INTERVAL = 10000;
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+  contractAddress: string;
+  value: unknown;
+}
+
+interface InFlightRead {
+  contractAddress: string;
+  promise: Promise<unknown>;
+}
+
+export function readCacheKey(contractAddress: string, functionName: string, args: readonly string[]): string {
+  return `${contractAddress.toLowerCase()}:${functionName}(${args.join(',')})`;
+}
+
+export class BlockReadCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, InFlightRead>();
+  private blockNumber: number | null = null;
+  private generation = 0;     // bumped on every invalidation so stale loads are not stored
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private getBlockNumber: () => Promise<number>,
+    private pollInterval: number = BLOCK_POLL_INTERVAL
+  ) {}
+
+  // Cached value for `key`, loading it once if missing; polling starts with the first read
+  async get<T>(key: string, contractAddress: string, load: () => Promise<T>): Promise<T> {
+    this.start();
+
+    const entry = this.entries.get(key);
+    if (entry) return entry.value as T;
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending.promise as Promise<T>;
+
+    const generation = this.generation;
+    const promise = load().then(value => {
+      if (this.generation === generation) {
+        this.entries.set(key, { contractAddress, value });
+        this.prune();
+      }
+      return value;
+    }).finally(() => {
+      if (this.inFlight.get(key)?.promise === promise) this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, { contractAddress, promise });
+    return promise;
+  }
+
+  // Drop cached reads of one contract, or everything; reads in flight are not stored
+  invalidate(contractAddress?: string): void {
+    this.generation++;
+    const address = contractAddress?.toLowerCase();
+    for (const [key, entry] of this.entries) {
+      if (!address || entry.contractAddress.toLowerCase() === address) this.entries.delete(key);
+    }
+    for (const [key, read] of this.inFlight) {
+      if (!address || read.contractAddress.toLowerCase() === address) this.inFlight.delete(key);
+    }
+  }
+
+  // Check the chain head now; a new block invalidates everything
+  async refresh(): Promise<void> {
+    let blockNumber: number;
+    try {
+      blockNumber = await this.getBlockNumber();
+    } catch (error) {
+      console.log('Block poll for read cache failed:', error);
+      return;
+    }
+    // The first poll runs alongside the first reads, so only later changes invalidate
+    if (this.blockNumber !== null && blockNumber !== this.blockNumber) {
+      console.log(`New block ${blockNumber}, invalidating ${this.entries.size} cached reads`);
+      this.invalidate();
+    }
+    this.blockNumber = blockNumber;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    void this.refresh();
+    this.timer = setInterval(() => void this.refresh(), this.pollInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Oldest entries go first; Map iteration follows insertion order
+  private prune(): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= MAX_ENTRIES) break;
+      this.entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+// Submitted transaction handles and receipt polling
+// A SentTransaction wraps the hash returned by the node; wait() polls its receipt until the
+// transaction is mined, reverted or dropped, or until the timeout expires.
+
+import { DecodingError } from './aztec-errors';
+import type { RpcTransport } from './json-rpc-transport';
+
+export type TxStatus = 'pending' | 'mined' | 'reverted' | 'dropped';
+
+export interface TxReceipt {
+  txHash: string;
+  status: TxStatus;
+  blockNumber?: number;
+  revertReason?: string;
+}
+
+export interface WaitOptions {
+  timeout?: number;    // ms before wait() gives up and resolves with the pending receipt
+  interval?: number;   // ms between receipt polls
+  signal?: AbortSignal;
+}
+
+const DEFAULT_WAIT_OPTIONS = {
+  timeout: 300000,
+  interval: 5000
+};
+
+// Node receipt statuses, see TxStatus in @aztec/stdlib/tx
+const RECEIPT_STATUSES: Record<string, TxStatus> = {
+  pending: 'pending',
+  success: 'mined',
+  dropped: 'dropped',
+  app_logic_reverted: 'reverted',
+  teardown_reverted: 'reverted',
+  both_reverted: 'reverted'
+};
+
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export function parseTxHash(value: unknown): string {
+  if (typeof value === 'string' && TX_HASH_PATTERN.test(value)) return value;
+  if (value && typeof value === 'object' && 'txHash' in value) return parseTxHash(value.txHash);
+  throw new DecodingError('Invalid transaction hash returned by node', value);
+}
+
+function parseReceipt(txHash: string, raw: any): TxReceipt {
+  // Nodes answer null for transactions they have not seen in a block or the mempool yet
+  if (raw === null || raw === undefined) {
+    return { txHash, status: 'pending' };
+  }
+
+  const status = RECEIPT_STATUSES[raw.status];
+  if (!status) {
+    throw new DecodingError(`Unknown transaction status "${raw.status}"`, raw);
+  }
+
+  const blockNumber = raw.blockNumber === undefined || raw.blockNumber === null ? undefined : Number(raw.blockNumber);
+  return {
+    txHash,
+    status,
+    blockNumber: Number.isSafeInteger(blockNumber) ? blockNumber : undefined,
+    revertReason: status === 'reverted' ? String(raw.error || raw.status) : undefined
+  };
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+
+export class SentTransaction {
+  constructor(readonly txHash: string, private transport: RpcTransport) {}
+
+  async getReceipt(): Promise<TxReceipt> {
+    const raw = await this.transport.request('aztec_getTxReceipt', [this.txHash]);
+    return parseReceipt(this.txHash, raw);
+  }
+
+  // Resolves with the final receipt, or the last pending one on timeout or abort
+  async wait(options: WaitOptions = {}): Promise<TxReceipt> {
+    // Per field, so an explicit `undefined` still gets the default
+    const timeout = options.timeout ?? DEFAULT_WAIT_OPTIONS.timeout;
+    const interval = options.interval ?? DEFAULT_WAIT_OPTIONS.interval;
+    const deadline = Date.now() + timeout;
+
+    for (;;) {
+      const receipt = await this.getReceipt();
+      if (receipt.status !== 'pending') {
+        console.log(`Transaction ${this.txHash} ${receipt.status}`, receipt.blockNumber ?? '');
+        return receipt;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0 || options.signal?.aborted) {
+        console.log(`Transaction ${this.txHash} still pending after ${timeout}ms`);
+        return receipt;
+      }
+      await sleep(Math.min(interval, remaining), options.signal);
+    }
+  }
+}
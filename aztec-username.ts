@@ -0,0 +1,159 @@
+// Username rules
+// Usernames are normalized before hashing so look-alike spellings map to the same on-chain
+// username hash: Unicode NFKC, case folding and confusable characters reduced to their ASCII
+// skeleton. Only the hash is stored in the ProfileRegistry.
+
+import { hashToField } from './aztec-codec';
+
+export type UsernameIssue = 'too_short' | 'too_long' | 'invalid_characters' | 'invalid_underscore' | 'reserved';
+
+export type UsernameValidation =
+  | { valid: true; username: string }
+  | { valid: false; username: string; reason: UsernameIssue; message: string };
+
+export type UsernameAvailability =
+  | { status: 'checking'; username: string }
+  | { status: 'invalid'; username: string; reason: UsernameIssue; message: string }
+  | { status: 'available' | 'taken'; username: string; usernameHash: string }
+  | { status: 'error'; username: string; error: Error };
+
+// Anything that can answer is_username_available, e.g. AztecContractClient
+export interface UsernameRegistry {
+  isUsernameAvailable(usernameHash: string): Promise<boolean>;
+}
+
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 20;
+
+const USERNAME_PATTERN = /^[a-z0-9_]+$/;
+
+export const RESERVED_USERNAMES: ReadonlySet<string> = new Set([
+  'admin', 'administrator', 'api', 'aztec', 'aztlan', 'help', 'mod', 'moderator', 'null',
+  'official', 'root', 'security', 'support', 'system', 'undefined', 'verify', 'www'
+]);
+
+// Invisible characters that would make two identical-looking names differ
+const INVISIBLE_PATTERN = /[\u00ad\u034f\u061c\u115f\u1160\u17b4\u17b5\u180e\u200b-\u200f\u202a-\u202e\u2060-\u2064\u206a-\u206f\u3164\ufeff\uffa0]/g;
+
+// Cyrillic and Greek letters NFKC leaves alone but that render like Latin ones
+const CONFUSABLES: Record<string, string> = {
+  '\u0430': 'a', '\u0435': 'e', '\u0451': 'e', '\u04bb': 'h', '\u0456': 'i', '\u0457': 'i', '\u0458': 'j',
+  '\u043e': 'o', '\u0440': 'p', '\u0441': 'c', '\u0443': 'y', '\u0445': 'x', '\u0455': 's', '\u0501': 'd',
+  '\u051b': 'q', '\u051d': 'w', '\u0261': 'g', '\u0131': 'i', '\u0237': 'j',
+  '\u03b1': 'a', '\u03b5': 'e', '\u03b9': 'i', '\u03ba': 'k', '\u03bd': 'v', '\u03bf': 'o', '\u03c1': 'p',
+  '\u03c4': 't', '\u03c5': 'u', '\u03c7': 'x', '\u03c9': 'w'
+};
+
+const CONFUSABLE_PATTERN = new RegExp(`[${Object.keys(CONFUSABLES).join('')}]`, 'g');
+
+export class UsernameError extends Error {
+  constructor(readonly reason: UsernameIssue | 'taken', message: string) {
+    super(message);
+    this.name = 'UsernameError';
+  }
+}
+
+// Canonical form of a username; validation and hashing always work on this
+export function normalizeUsername(input: string): string {
+  return input
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFKC')
+    .replace(INVISIBLE_PATTERN, '')
+    .replace(CONFUSABLE_PATTERN, char => CONFUSABLES[char])
+    .trim();
+}
+
+export function validateUsername(input: string): UsernameValidation {
+  const username = normalizeUsername(input);
+  const invalid = (reason: UsernameIssue, message: string): UsernameValidation =>
+    ({ valid: false, username, reason, message });
+
+  if (username.length < USERNAME_MIN_LENGTH) {
+    return invalid('too_short', `Username must be at least ${USERNAME_MIN_LENGTH} characters`);
+  }
+  if (username.length > USERNAME_MAX_LENGTH) {
+    return invalid('too_long', `Username must be at most ${USERNAME_MAX_LENGTH} characters`);
+  }
+  if (!USERNAME_PATTERN.test(username)) {
+    return invalid('invalid_characters', 'Username may only contain letters, digits and underscores');
+  }
+  if (username.startsWith('_') || username.endsWith('_') || username.includes('__')) {
+    return invalid('invalid_underscore', 'Underscores cannot start or end a username or appear twice in a row');
+  }
+  if (RESERVED_USERNAMES.has(username)) {
+    return invalid('reserved', `"${username}" is reserved`);
+  }
+  return { valid: true, username };
+}
+
+// Normalized username, or a UsernameError explaining which rule it breaks
+export function assertValidUsername(input: string): string {
+  const validation = validateUsername(input);
+  if (!validation.valid) {
+    throw new UsernameError(validation.reason, validation.message);
+  }
+  return validation.username;
+}
+
+// SHA-256 of the normalized username reduced into the field, as passed to create_profile
+export function hashUsername(username: string): Promise<string> {
+  return hashToField(normalizeUsername(username));
+}
+
+// Validate, then ask the registry whether the username hash is still free
+export async function checkUsername(input: string, registry: UsernameRegistry): Promise<UsernameAvailability> {
+  const validation = validateUsername(input);
+  if (!validation.valid) {
+    return { status: 'invalid', username: validation.username, reason: validation.reason, message: validation.message };
+  }
+
+  const { username } = validation;
+  try {
+    const usernameHash = await hashUsername(username);
+    const available = await registry.isUsernameAvailable(usernameHash);
+    return { status: available ? 'available' : 'taken', username, usernameHash };
+  } catch (error) {
+    return { status: 'error', username, error: error instanceof Error ? error : new Error(String(error)) };
+  }
+}
+
+// Availability check for a signup field: debounces keystrokes and drops answers for
+// input that has since changed, so results always describe the latest value
+export class LiveUsernameCheck {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private latest = 0;
+
+  constructor(
+    private registry: UsernameRegistry,
+    private onResult: (result: UsernameAvailability) => void,
+    private delay: number = 300
+  ) {}
+
+  update(input: string): void {
+    this.cancel();
+    const check = ++this.latest;
+
+    // Rule violations are reported right away, only availability waits for typing to pause
+    const validation = validateUsername(input);
+    if (!validation.valid) {
+      this.onResult({ status: 'invalid', username: validation.username, reason: validation.reason, message: validation.message });
+      return;
+    }
+
+    this.onResult({ status: 'checking', username: validation.username });
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      const result = await checkUsername(input, this.registry);
+      if (check === this.latest) this.onResult(result);
+    }, this.delay);
+  }
+
+  cancel(): void {
+    this.latest++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
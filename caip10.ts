@@ -0,0 +1,68 @@
+// CAIP-10 account identifiers ("namespace:reference:address")
+// https://github.com/ChainAgnostic/CAIPs/blob/main/CAIPs/caip-10.md
+
+export interface CaipAccount {
+  namespace: string;
+  chainId: string;   // CAIP-2 reference, e.g. "11155111"
+  address: string;
+}
+
+const NAMESPACE_PATTERN = /^[-a-z0-9]{3,8}$/;
+const REFERENCE_PATTERN = /^[-_a-zA-Z0-9]{1,32}$/;
+const ACCOUNT_ADDRESS_PATTERN = /^[-.%a-zA-Z0-9]{1,128}$/;
+
+// Aztec addresses are a single field element: 32 bytes hex encoded
+const AZTEC_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+export const AZTEC_NAMESPACE = 'aztec';
+
+function validateCaipAccount({ namespace, chainId, address }: CaipAccount): void {
+  if (!NAMESPACE_PATTERN.test(namespace)) {
+    throw new Error(`Invalid CAIP-10 namespace: ${namespace}`);
+  }
+  if (!REFERENCE_PATTERN.test(chainId)) {
+    throw new Error(`Invalid CAIP-10 chain id: ${chainId}`);
+  }
+  if (!ACCOUNT_ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid CAIP-10 account address: ${address}`);
+  }
+  if (namespace === AZTEC_NAMESPACE) {
+    if (!/^\d+$/.test(chainId)) {
+      throw new Error(`Invalid Aztec chain id: ${chainId}`);
+    }
+    if (!AZTEC_ADDRESS_PATTERN.test(address)) {
+      throw new Error(`Invalid Aztec address: ${address}`);
+    }
+  }
+}
+
+export function parseCaipAccount(value: string): CaipAccount {
+  const parts = value.split(':');
+  if (parts.length !== 3) {
+    throw new Error(`Invalid CAIP-10 account id: ${value}`);
+  }
+
+  const [namespace, chainId, address] = parts;
+  const account = { namespace, chainId, address };
+  validateCaipAccount(account);
+  return account;
+}
+
+export function formatCaipAccount(account: CaipAccount): string {
+  validateCaipAccount(account);
+  return `${account.namespace}:${account.chainId}:${account.address}`;
+}
+
+export function isCaipAccount(value: string): boolean {
+  try {
+    parseCaipAccount(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// CAIP-2 chain id of an account, e.g. "aztec:11155111"
+export function caipChainOf(account: CaipAccount): string {
+  return `${account.namespace}:${account.chainId}`;
+}
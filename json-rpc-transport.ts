@@ -0,0 +1,207 @@
+// Shared JSON-RPC 2.0 transport used by every Aztec client
+// Monotonic request ids, batch requests, timeouts with AbortSignal support and
+// retry with exponential backoff for transient HTTP failures of idempotent methods
+
+import { DecodingError, NetworkError, RpcError, toFetchError, type Result } from './aztec-errors';
+
+export interface JsonRpcErrorObject {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcCall {
+  method: string;
+  params?: unknown;
+}
+
+export type JsonRpcBatchResult<T = any> = Result<T, RpcError>;
+
+export interface JsonRpcRequestOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+  retries?: number;
+  idempotent?: boolean;  // safe to send again after a timeout; derived from the method when unset
+}
+
+export interface JsonRpcTransportOptions {
+  timeout?: number;      // ms per attempt
+  retries?: number;      // extra attempts for transient failures
+  retryDelay?: number;   // base backoff delay in ms
+  headers?: Record<string, string>;
+}
+
+// Anything requests can be routed through: a single endpoint or a pool of nodes
+export interface RpcTransport {
+  request<T = any>(method: string, params?: unknown, options?: JsonRpcRequestOptions): Promise<T>;
+  batch<T = any>(calls: JsonRpcCall[], options?: JsonRpcRequestOptions): Promise<JsonRpcBatchResult<T>[]>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | null;
+  result?: unknown;
+  error?: JsonRpcErrorObject;
+}
+
+const toRpcError = (method: string, error: JsonRpcErrorObject) =>
+  new RpcError(method, error.code, error.message, error.data);
+
+const DEFAULT_OPTIONS: Required<Omit<JsonRpcTransportOptions, 'headers'>> = {
+  timeout: 30000,
+  retries: 2,
+  retryDelay: 250
+};
+
+const TRANSIENT_HTTP_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+// A timeout can arrive after the node accepted the transaction, so sending again may submit it twice
+export const NON_IDEMPOTENT_METHODS: ReadonlySet<string> = new Set(['aztec_sendTransaction', 'pxe_sendTransaction']);
+
+export function isIdempotent(calls: string | JsonRpcCall[], options: JsonRpcRequestOptions = {}): boolean {
+  if (options.idempotent !== undefined) return options.idempotent;
+  const methods = typeof calls === 'string' ? [calls] : calls.map(call => call.method);
+  return methods.every(method => !NON_IDEMPOTENT_METHODS.has(method));
+}
+
+// Shared across transports so ids stay unique in logs even with several endpoints
+let nextRequestId = 1;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class JsonRpcTransport implements RpcTransport {
+  readonly url: string;
+  private options: Required<Omit<JsonRpcTransportOptions, 'headers'>>;
+  private headers: Record<string, string>;
+
+  constructor(url: string, options: JsonRpcTransportOptions = {}) {
+    this.url = url.replace(/\/+$/, '');
+    const { headers, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.headers = { 'Content-Type': 'application/json', ...headers };
+  }
+
+  async request<T = any>(method: string, params: unknown = [], options: JsonRpcRequestOptions = {}): Promise<T> {
+    const id = nextRequestId++;
+    const response = await this.post<JsonRpcResponse>(
+      { jsonrpc: '2.0', method, params, id },
+      method,
+      options,
+      isIdempotent(method, options)
+    );
+
+    if (response.error) {
+      throw toRpcError(method, response.error);
+    }
+    return response.result as T;
+  }
+
+  // Sends all calls in one HTTP request; results come back in call order
+  async batch<T = any>(calls: JsonRpcCall[], options: JsonRpcRequestOptions = {}): Promise<JsonRpcBatchResult<T>[]> {
+    if (calls.length === 0) return [];
+
+    const requests = calls.map(call => ({
+      jsonrpc: '2.0' as const,
+      method: call.method,
+      params: call.params ?? [],
+      id: nextRequestId++
+    }));
+
+    const responses = await this.post<JsonRpcResponse[]>(requests, `batch(${calls.length})`, options, isIdempotent(calls, options));
+    if (!Array.isArray(responses)) {
+      throw new DecodingError('Invalid JSON-RPC batch response', responses);
+    }
+
+    const byId = new Map(responses.map(response => [response.id, response]));
+    return requests.map(request => {
+      const response = byId.get(request.id);
+      if (!response) {
+        return {
+          ok: false,
+          error: new RpcError(request.method, -32603, 'Missing response in batch')
+        };
+      }
+      if (response.error) {
+        return { ok: false, error: toRpcError(request.method, response.error) };
+      }
+      return { ok: true, value: response.result as T };
+    });
+  }
+
+  private async post<T>(body: unknown, label: string, options: JsonRpcRequestOptions, idempotent: boolean): Promise<T> {
+    const timeout = options.timeout ?? this.options.timeout;
+    const retries = idempotent ? options.retries ?? this.options.retries : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.postOnce<T>(body, label, timeout, options.signal);
+      } catch (error) {
+        const isTransient = error instanceof NetworkError && error.transient;
+        if (options.signal?.aborted || attempt >= retries || !isTransient) {
+          throw error;
+        }
+
+        const delay = this.options.retryDelay * 2 ** attempt * (1 + Math.random() * 0.25);
+        console.log(`RPC ${label} failed (${error instanceof Error ? error.message : error}), retrying in ${Math.round(delay)}ms...`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async postOnce<T>(body: unknown, label: string, timeout: number, signal?: AbortSignal): Promise<T> {
+    const payload = JSON.stringify(body);
+    const controller = new AbortController();
+    const abort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: this.headers,
+        body: payload,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new NetworkError(
+          `${label} failed: HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`,
+          response.status,
+          TRANSIENT_HTTP_STATUSES.includes(response.status)
+        );
+      }
+      try {
+        return await response.json() as T;
+      } catch (parseError) {
+        throw new DecodingError(`${label} returned invalid JSON`, parseError);
+      }
+    } catch (error) {
+      if (timedOut) {
+        throw new NetworkError(`${label} timed out after ${timeout}ms`, undefined, true, error);
+      }
+      throw toFetchError(error);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    }
+  }
+}
+
+const transports = new Map<string, JsonRpcTransport>();
+
+// One transport per endpoint, shared by all clients talking to it
+export function getJsonRpcTransport(url: string, options?: JsonRpcTransportOptions): JsonRpcTransport {
+  const key = url.replace(/\/+$/, '');
+  let transport = transports.get(key);
+  if (!transport) {
+    transport = new JsonRpcTransport(key, options);
+    transports.set(key, transport);
+  }
+  return transport;
+}
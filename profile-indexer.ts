@@ -0,0 +1,494 @@
+// Local profile event indexer
+// Follows the chain through the node pool and records ProfileRegistry and PrivateSocial public
+// events into a local store for search, leaderboards and "recent members". Profiles are folded
+// from the event log, so a reorg is handled by dropping the events of the abandoned blocks and
+// folding again. Only events a reorg can still undo (those after the oldest kept checkpoint) stay
+// in the log; older ones are folded into the stored profiles, which keeps the store bounded.
+// Progress is checkpointed per network and resumed on reload.
+
+import { BlockHeader } from '@aztec/stdlib/tx';
+import { loadContractAbi } from './aztec-artifacts';
+import { decodeValue } from './aztec-codec';
+import type { ContractArtifactUrls } from './aztec-contracts';
+import { DecodingError, NetworkError, toAztecError } from './aztec-errors';
+import type { NetworkProfile } from './aztec-network';
+import { getNodePool, type AztecNodePool } from './aztec-node-pool';
+import { VERIFICATION_PROVIDERS, type VerificationProviderId } from './verification-providers';
+
+export type IndexedEventName = 'ProfileCreated' | 'VerificationUpdated';
+
+export interface IndexedEvent {
+  name: IndexedEventName;
+  contractAddress: string;
+  blockNumber: number;
+  txIndex: number;    // position of the transaction in its block
+  logIndex: number;   // position of the log in its transaction
+  data: Record<string, string | boolean>;
+}
+
+export interface IndexedProfile {
+  id: string;
+  owner: string;
+  usernameHash: string;
+  tokenUriHash: string;
+  createdBlock: number;
+  updatedBlock: number;
+  verifications: Partial<Record<VerificationProviderId, boolean>>;
+}
+
+export interface IndexerCheckpoint {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface IndexerOptions {
+  startBlock?: number;      // first block to index on a fresh store, e.g. the registry deployment block
+  pollInterval?: number;
+  maxBlockRange?: number;   // blocks per log query
+}
+
+export interface ProfileIndexerEvents {
+  profile: (profile: IndexedProfile) => void;
+  synced: (checkpoint: IndexerCheckpoint) => void;
+  reorg: (fromBlock: number) => void;
+}
+
+export type ProfileIndexerEvent = keyof ProfileIndexerEvents;
+
+interface StoredIndex {
+  checkpoints: IndexerCheckpoint[];   // newest last, kept to find the fork point after a reorg
+  settled: IndexedProfile[];          // folded from events up to the oldest checkpoint
+  events: IndexedEvent[];             // after the oldest checkpoint, in chain order
+}
+
+// Events folded into profiles, by emitting contract, with the field layout the indexer expects.
+// Selectors come from the compiled artifacts. The contracts deployed so far emit neither event;
+// they come with the contract update that adds OPTIONAL_REGISTRY_FUNCTIONS (aztec-contracts.ts),
+// emitted by create_profile and submit_verification. An artifact without an event leaves it unindexed.
+const EVENT_LAYOUTS: Record<IndexedEventName, { contract: keyof ContractArtifactUrls; fields: Array<{ name: string; type: string }> }> = {
+  ProfileCreated: {
+    contract: 'profileRegistry',
+    fields: [
+      { name: 'profile_id', type: 'Field' },
+      { name: 'owner', type: 'AztecAddress' },
+      { name: 'username_hash', type: 'Field' },
+      { name: 'token_uri_hash', type: 'Field' }
+    ]
+  },
+  VerificationUpdated: {
+    contract: 'privateSocial',
+    fields: [
+      { name: 'profile_id', type: 'Field' },
+      { name: 'provider', type: 'u8' },
+      { name: 'verified', type: 'bool' }
+    ]
+  }
+};
+
+const STORAGE_PREFIX = 'aztlan.indexer';
+const POLL_INTERVAL = 10000;
+const MAX_BLOCK_RANGE = 100;
+const KEPT_CHECKPOINTS = 50;
+
+const fieldTypes = (fields: Array<{ type: string }>) => fields.map(field => field.type).join(', ');
+
+// Selector -> event for every indexed event the artifacts define
+async function loadEventSelectors(artifacts: ContractArtifactUrls): Promise<Map<bigint, IndexedEventName>> {
+  const selectors = new Map<bigint, IndexedEventName>();
+  for (const name of Object.keys(EVENT_LAYOUTS) as IndexedEventName[]) {
+    const layout = EVENT_LAYOUTS[name];
+    const abi = await loadContractAbi(artifacts[layout.contract]);
+    const event = abi.events?.find(e => e.name === name);
+    if (!event) {
+      console.log(`${name} is not in the ${abi.name ?? layout.contract} artifact and will not be indexed`);
+      continue;
+    }
+    if (fieldTypes(event.fields) !== fieldTypes(layout.fields)) {
+      throw new DecodingError(`${name} layout is out of date: artifact has (${fieldTypes(event.fields)})`, event);
+    }
+    selectors.set(BigInt(event.selector), name);
+  }
+  if (selectors.size === 0) {
+    throw new DecodingError('The contract artifacts define none of the indexed events');
+  }
+  return selectors;
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// Applies one event to `profiles`; resolves to the changed profile, or null when the event
+// changes nothing (a verification of an unknown profile or provider)
+function foldEvent(profiles: Map<string, IndexedProfile>, event: IndexedEvent): IndexedProfile | null {
+  const id = String(event.data.profile_id);
+  let profile: IndexedProfile;
+
+  if (event.name === 'ProfileCreated') {
+    profile = {
+      id,
+      owner: String(event.data.owner),
+      usernameHash: String(event.data.username_hash),
+      tokenUriHash: String(event.data.token_uri_hash),
+      createdBlock: event.blockNumber,
+      updatedBlock: event.blockNumber,
+      verifications: {}
+    };
+  } else {
+    const existing = profiles.get(id);
+    const provider = VERIFICATION_PROVIDERS.find(p => p.slot === Number(event.data.provider));
+    if (!existing || !provider) return null;
+    profile = {
+      ...existing,
+      updatedBlock: event.blockNumber,
+      verifications: { ...existing.verifications, [provider.id]: event.data.verified === true }
+    };
+  }
+
+  profiles.set(id, profile);
+  return profile;
+}
+
+// Block headers carry no hash field; the block hash is the hash of the header, computed locally
+async function hashBlockHeader(raw: unknown, blockNumber: number): Promise<string> {
+  let header: BlockHeader;
+  try {
+    header = BlockHeader.schema.parse(raw);
+  } catch (error) {
+    throw new DecodingError(`Invalid header returned for block ${blockNumber}`, raw);
+  }
+  return (await header.hash()).toString();
+}
+
+export class ProfileIndexer {
+  private pool: AztecNodePool;
+  private store: StoredIndex | null = null;
+  private profiles = new Map<string, IndexedProfile>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+  private syncing: Promise<void> | null = null;
+  private selectors: Promise<Map<bigint, IndexedEventName>> | null = null;
+  private options: Required<IndexerOptions>;
+  private listeners: { [E in ProfileIndexerEvent]: Set<ProfileIndexerEvents[E]> } = {
+    profile: new Set(),
+    synced: new Set(),
+    reorg: new Set()
+  };
+
+  constructor(private network: NetworkProfile, private artifacts: ContractArtifactUrls, options: IndexerOptions = {}) {
+    this.pool = getNodePool(network);
+    this.options = {
+      startBlock: 1,
+      pollInterval: POLL_INTERVAL,
+      maxBlockRange: MAX_BLOCK_RANGE,
+      ...options
+    };
+  }
+
+  private get storageKey(): string {
+    return `${STORAGE_PREFIX}.${this.network.id}.${this.network.contracts.profileRegistry}`;
+  }
+
+  // Resume from the stored checkpoint and keep following new blocks
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.poll();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Index up to the current chain tip once; concurrent calls share the same run
+  sync(): Promise<void> {
+    this.syncing ??= this.catchUp().finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  getCheckpoint(): IndexerCheckpoint | null {
+    return this.load().checkpoints.at(-1) ?? null;
+  }
+
+  // Queries
+
+  getProfile(id: string): IndexedProfile | null {
+    this.load();
+    return this.profiles.get(BigInt(id).toString()) ?? null;
+  }
+
+  findByOwner(owner: string): IndexedProfile | null {
+    return this.all().find(profile => sameAddress(profile.owner, owner)) ?? null;
+  }
+
+  findByUsernameHash(usernameHash: string): IndexedProfile | null {
+    const hash = BigInt(usernameHash);
+    return this.all().find(profile => BigInt(profile.usernameHash) === hash) ?? null;
+  }
+
+  // Usernames are only known by hash on-chain; callers hash the query with hashUsername()
+  // for exact matches, addresses match by prefix
+  search(query: string, limit: number = 20): IndexedProfile[] {
+    const prefix = query.trim().toLowerCase();
+    if (!prefix) return [];
+    return this.all().filter(profile => profile.owner.toLowerCase().startsWith(prefix)).slice(0, limit);
+  }
+
+  recentProfiles(limit: number = 20): IndexedProfile[] {
+    return this.all().sort((a, b) => b.createdBlock - a.createdBlock).slice(0, limit);
+  }
+
+  // Most verified accounts first, earlier members break ties
+  leaderboard(limit: number = 20): IndexedProfile[] {
+    const score = (profile: IndexedProfile) => Object.values(profile.verifications).filter(Boolean).length;
+    return this.all()
+      .sort((a, b) => score(b) - score(a) || a.createdBlock - b.createdBlock)
+      .slice(0, limit);
+  }
+
+  totalProfiles(): number {
+    this.load();
+    return this.profiles.size;
+  }
+
+  // Events of the blocks since the oldest kept checkpoint; earlier ones only live on in the profiles
+  events(filter: { name?: IndexedEventName; profileId?: string } = {}): IndexedEvent[] {
+    return this.load().events.filter(event =>
+      (!filter.name || event.name === filter.name) &&
+      (!filter.profileId || BigInt(event.data.profile_id as string) === BigInt(filter.profileId))
+    );
+  }
+
+  on<E extends ProfileIndexerEvent>(event: E, handler: ProfileIndexerEvents[E]): () => void {
+    this.listeners[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends ProfileIndexerEvent>(event: E, handler: ProfileIndexerEvents[E]): void {
+    this.listeners[event].delete(handler);
+  }
+
+  private all(): IndexedProfile[] {
+    this.load();
+    return Array.from(this.profiles.values());
+  }
+
+  // Loaded once; a failed artifact load is retried on the next sync
+  private eventSelectors(): Promise<Map<bigint, IndexedEventName>> {
+    if (!this.selectors) {
+      const selectors = loadEventSelectors(this.artifacts);
+      selectors.catch(() => {
+        if (this.selectors === selectors) this.selectors = null;
+      });
+      this.selectors = selectors;
+    }
+    return this.selectors;
+  }
+
+  private async poll(): Promise<void> {
+    try {
+      await this.sync();
+    } catch (error) {
+      console.log('Profile indexer sync failed:', toAztecError(error).message);
+    }
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, this.options.pollInterval);
+  }
+
+  private async catchUp(): Promise<void> {
+    const store = this.load();
+    await this.handleReorg();
+
+    const tip = Number(await this.pool.request('aztec_getBlockNumber'));
+    let from = (store.checkpoints.at(-1)?.blockNumber ?? this.options.startBlock - 1) + 1;
+
+    while (from <= tip) {
+      const to = Math.min(tip, from + this.options.maxBlockRange - 1);
+      const events = await this.fetchRange(from, to);
+      const checkpoint = { blockNumber: to, blockHash: await this.getBlockHash(to) };
+
+      // Events and checkpoint are committed together so an interrupted run never records a block twice
+      store.events.push(...events);
+      events.forEach(event => this.apply(event, true));
+      store.checkpoints.push(checkpoint);
+      store.checkpoints.splice(0, Math.max(0, store.checkpoints.length - KEPT_CHECKPOINTS));
+      this.compact();
+      this.save();
+      this.emit('synced', checkpoint);
+      from = to + 1;
+    }
+  }
+
+  // Finds the newest checkpoint the node still agrees with and drops everything after it.
+  // Only a different block counts as a reorg; a missing header or a failed request aborts the
+  // sync, to be retried, since a pool node lagging behind the others does not know the block yet.
+  private async handleReorg(): Promise<void> {
+    const store = this.load();
+    let dropped = 0;
+    while (store.checkpoints.length > 0) {
+      const checkpoint = store.checkpoints.at(-1)!;
+      const hash = await this.getBlockHash(checkpoint.blockNumber);
+      if (hash === checkpoint.blockHash) break;
+      store.checkpoints.pop();
+      dropped++;
+    }
+    if (dropped === 0) return;
+
+    const forkBlock = (store.checkpoints.at(-1)?.blockNumber ?? this.options.startBlock - 1) + 1;
+    console.log(`Chain reorganized, re-indexing from block ${forkBlock}`);
+    // A reorg deeper than every kept checkpoint may have undone settled profiles too
+    if (store.checkpoints.length === 0) store.settled = [];
+    store.events = store.events.filter(event => event.blockNumber < forkBlock);
+    this.rebuild();
+    this.save();
+    this.emit('reorg', forkBlock);
+  }
+
+  // Events of blocks [from, to] in chain order. The node caps the logs per response, so each
+  // contract's logs are paged with afterLog until the range is exhausted.
+  private async fetchRange(from: number, to: number): Promise<IndexedEvent[]> {
+    const selectors = await this.eventSelectors();
+    const contracts = [this.network.contracts.profileRegistry, this.network.contracts.privateSocial].filter(Boolean);
+    const events: IndexedEvent[] = [];
+
+    for (const contractAddress of contracts) {
+      let afterLog: unknown;
+      for (;;) {
+        // toBlock is exclusive on the node
+        const raw = await this.pool.request('aztec_getPublicLogs', [{ fromBlock: from, toBlock: to + 1, contractAddress, afterLog }]);
+        const logs: any[] = Array.isArray(raw?.logs) ? raw.logs : [];
+        for (const entry of logs) {
+          const event = this.decodeLog(entry, contractAddress, selectors);
+          if (event) events.push(event);
+        }
+        if (!raw?.maxLogsHit || logs.length === 0) break;
+        afterLog = logs[logs.length - 1].id;
+      }
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.txIndex - b.txIndex || a.logIndex - b.logIndex);
+  }
+
+  private decodeLog(entry: any, contractAddress: string, selectors: Map<bigint, IndexedEventName>): IndexedEvent | null {
+    const fields: string[] = entry?.log?.fields ?? [];
+    const emitted = Number(entry?.log?.emittedLength ?? fields.length);
+    if (emitted === 0) return null;
+
+    let name: IndexedEventName | undefined;
+    try {
+      name = selectors.get(BigInt(fields[emitted - 1]));
+    } catch {
+      return null;
+    }
+    if (!name) return null;
+
+    const layout = EVENT_LAYOUTS[name];
+    const tupleType = `(${layout.fields.map(field => field.type).join(', ')})`;
+    try {
+      const values = decodeValue(tupleType, fields.slice(0, emitted - 1), name) as Array<string | boolean>;
+      return {
+        name,
+        contractAddress,
+        blockNumber: Number(entry.id?.blockNumber),
+        txIndex: Number(entry.id?.txIndex ?? 0),
+        logIndex: Number(entry.id?.logIndex ?? 0),
+        data: Object.fromEntries(layout.fields.map((field, index) => [field.name, values[index]]))
+      };
+    } catch (error) {
+      console.log(`Skipping undecodable ${name} log:`, toAztecError(error).message);
+      return null;
+    }
+  }
+
+  private apply(event: IndexedEvent, notify: boolean): void {
+    const profile = foldEvent(this.profiles, event);
+    if (profile && notify) this.emit('profile', profile);
+  }
+
+  private rebuild(): void {
+    const store = this.load();
+    this.profiles = new Map(store.settled.map(profile => [profile.id, profile]));
+    store.events.forEach(event => this.apply(event, false));
+  }
+
+  // Events at or before the oldest kept checkpoint are beyond any reorg this indexer can
+  // detect, so they are folded into the settled profiles and dropped from the log
+  private compact(): void {
+    const store = this.load();
+    const oldest = store.checkpoints[0]?.blockNumber;
+    if (oldest === undefined || !store.events.some(event => event.blockNumber <= oldest)) return;
+
+    const settled = new Map(store.settled.map(profile => [profile.id, profile]));
+    store.events.filter(event => event.blockNumber <= oldest).forEach(event => foldEvent(settled, event));
+    store.settled = Array.from(settled.values());
+    store.events = store.events.filter(event => event.blockNumber > oldest);
+  }
+
+  // A missing header is not proof of a reorg: the node answering may just be behind, e.g.
+  // another node of the pool than the one that served the logs. The sync is retried later.
+  private async getBlockHash(blockNumber: number): Promise<string> {
+    const raw = await this.pool.request('aztec_getBlockHeader', [blockNumber]);
+    if (raw == null) {
+      throw new NetworkError(`Node has no header for block ${blockNumber} yet, retrying later`);
+    }
+    return hashBlockHeader(raw, blockNumber);
+  }
+
+  private emit<E extends ProfileIndexerEvent>(event: E, ...args: Parameters<ProfileIndexerEvents[E]>): void {
+    this.listeners[event].forEach(handler => {
+      try {
+        (handler as (...args: Parameters<ProfileIndexerEvents[E]>) => void)(...args);
+      } catch (error) {
+        console.error(`Profile indexer ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  private load(): StoredIndex {
+    if (this.store) return this.store;
+
+    let store: StoredIndex = { checkpoints: [], settled: [], events: [] };
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (raw) store = JSON.parse(raw);
+    } catch (error) {
+      console.log('Unable to load profile index:', error);
+    }
+    store.settled ??= [];   // stores written before compaction
+    this.store = store;
+    this.rebuild();
+    return store;
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.load()));
+    } catch (error) {
+      console.log('Unable to persist profile index:', error);
+    }
+  }
+}
+
+const indexers = new Map<string, ProfileIndexer>();
+
+// One indexer per network and registry deployment
+export function getProfileIndexer(
+  network: NetworkProfile,
+  artifacts: ContractArtifactUrls,
+  options?: IndexerOptions
+): ProfileIndexer {
+  const key = `${network.id}|${network.contracts.profileRegistry}`;
+  let indexer = indexers.get(key);
+  if (!indexer) {
+    indexer = new ProfileIndexer(network, artifacts, options);
+    indexers.set(key, indexer);
+  }
+  return indexer;
+}
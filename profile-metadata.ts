@@ -0,0 +1,238 @@
+// Profile metadata store
+// Only the token_uri_hash of a profile's metadata goes on-chain. The canonical JSON is kept in a
+// content-addressed backend under that hash, and every read is checked against it, so whatever a
+// backend returns can be trusted to be what the profile owner committed to.
+
+import { hashToField } from './aztec-codec';
+import { DecodingError, NetworkError, toFetchError } from './aztec-errors';
+
+export interface ProfileMetadata {
+  username: string;
+  avatar?: string;
+  bio?: string;
+}
+
+export interface StoredMetadata {
+  hash: string;       // field element passed as token_uri_hash
+  content: string;    // canonical JSON the hash commits to
+}
+
+// Where canonical metadata documents live, keyed by their hash
+export interface MetadataBackend {
+  readonly name: string;
+  readonly persistent: boolean;   // documents outlive the page
+  put(hash: string, content: string): Promise<void>;
+  get(hash: string): Promise<string | null>;
+}
+
+export type MetadataBackendId = 'memory' | 'server' | 'ipfs';
+
+const env = import.meta.env;
+
+// JSON with sorted keys, no whitespace and undefined members dropped, so equal metadata
+// always produces the same bytes and therefore the same hash
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : canonicalJson(item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function hashMetadata(metadata: ProfileMetadata): Promise<string> {
+  return hashToField(canonicalJson(metadata));
+}
+
+// Hashes arrive as 0x-prefixed fields of any padding, compare them as numbers
+function normalizeHash(hash: string): string {
+  try {
+    return '0x' + BigInt(hash).toString(16).padStart(64, '0');
+  } catch (error) {
+    throw new DecodingError(`Invalid metadata hash "${hash}"`, error);
+  }
+}
+
+function parseMetadata(content: string): ProfileMetadata {
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new DecodingError('Profile metadata is not valid JSON', error);
+  }
+  const optionalString = (value: unknown) => value === undefined || typeof value === 'string';
+  if (!raw || typeof raw !== 'object' || typeof raw.username !== 'string' ||
+      !optionalString(raw.avatar) || !optionalString(raw.bio)) {
+    throw new DecodingError('Invalid profile metadata', raw);
+  }
+  return { username: raw.username, avatar: raw.avatar, bio: raw.bio };
+}
+
+async function fetchOrThrow(url: string, init: RequestInit, label: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw toFetchError(error);
+  }
+  if (!response.ok && response.status !== 404) {
+    throw new NetworkError(`${label} failed: HTTP ${response.status}`, response.status, response.status >= 500);
+  }
+  return response;
+}
+
+export class MemoryMetadataBackend implements MetadataBackend {
+  readonly name = 'memory';
+  readonly persistent = false;
+  private documents = new Map<string, string>();
+
+  async put(hash: string, content: string): Promise<void> {
+    this.documents.set(hash, content);
+  }
+
+  async get(hash: string): Promise<string | null> {
+    return this.documents.get(hash) ?? null;
+  }
+}
+
+// Plain HTTP document server: PUT and GET {baseUrl}/metadata/{hash}
+export class HttpMetadataBackend implements MetadataBackend {
+  readonly name = 'server';
+  readonly persistent = true;
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async put(hash: string, content: string): Promise<void> {
+    const response = await fetchOrThrow(`${this.baseUrl}/metadata/${hash}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: content
+    }, 'Metadata upload');
+    if (response.status === 404) {
+      throw new NetworkError(`Metadata server at ${this.baseUrl} does not accept uploads`, 404, false);
+    }
+  }
+
+  async get(hash: string): Promise<string | null> {
+    const response = await fetchOrThrow(`${this.baseUrl}/metadata/${hash}`, {}, 'Metadata download');
+    return response.status === 404 ? null : response.text();
+  }
+}
+
+// IPFS node via the Kubo RPC API. Documents are added to IPFS and linked into the node's
+// mutable file system under {root}/{hash}, which serves as the hash -> CID index.
+export class IpfsMetadataBackend implements MetadataBackend {
+  readonly name = 'ipfs';
+  readonly persistent = true;
+  private apiUrl: string;
+
+  constructor(apiUrl: string, private root: string = '/aztlan/metadata') {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  async put(hash: string, content: string): Promise<void> {
+    const form = new FormData();
+    form.append('file', new Blob([content], { type: 'application/json' }), hash);
+    const added = await this.call('add', { 'cid-version': '1' }, form);
+    const { Hash: cid } = await added.json();
+
+    // files/cp refuses to overwrite, and an existing entry already holds identical content
+    const existing = await this.call('files/stat', { arg: `${this.root}/${hash}` }, undefined, true);
+    if (existing.ok) return;
+    await this.call('files/mkdir', { arg: this.root, parents: 'true' });
+    await this.call('files/cp', { arg: [`/ipfs/${cid}`, `${this.root}/${hash}`] });
+  }
+
+  async get(hash: string): Promise<string | null> {
+    const response = await this.call('files/read', { arg: `${this.root}/${hash}` }, undefined, true);
+    return response.ok ? response.text() : null;
+  }
+
+  // Kubo answers every RPC error, including "file does not exist", with HTTP 500
+  private async call(
+    command: string,
+    params: Record<string, string | string[]>,
+    body?: FormData,
+    allowMissing: boolean = false
+  ): Promise<Response> {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => ([] as string[]).concat(value).forEach(v => query.append(key, v)));
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiUrl}/api/v0/${command}?${query}`, { method: 'POST', body });
+    } catch (error) {
+      throw toFetchError(error);
+    }
+    if (!response.ok) {
+      const message = await response.text().catch(() => '');
+      if (allowMissing && /does not exist|not found/i.test(message)) return response;
+      throw new NetworkError(`IPFS ${command} failed: HTTP ${response.status} ${message}`.trim(), response.status, response.status >= 502);
+    }
+    return response;
+  }
+}
+
+export class ProfileMetadataStore {
+  // Only development builds may commit hashes of documents that vanish on reload
+  constructor(private backend: MetadataBackend, private allowEphemeral: boolean = false) {}
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  // Stores the canonical JSON; the returned hash is the token_uri_hash for create_profile
+  async save(metadata: ProfileMetadata): Promise<StoredMetadata> {
+    if (!this.backend.persistent && !this.allowEphemeral) {
+      throw new Error(
+        `The ${this.backend.name} metadata backend does not persist profiles; set VITE_METADATA_BACKEND to "server" or "ipfs"`
+      );
+    }
+    const content = canonicalJson(metadata);
+    const hash = await hashToField(content);
+    await this.backend.put(hash, content);
+    console.log(`Profile metadata stored in ${this.backend.name}:`, hash);
+    return { hash, content };
+  }
+
+  // Metadata committed to by an on-chain token_uri_hash, or null if the backend does not have it.
+  // Content that does not hash to `hash` throws a DecodingError instead of being returned.
+  async load(hash: string): Promise<ProfileMetadata | null> {
+    const expected = normalizeHash(hash);
+    const content = await this.backend.get(expected);
+    if (content === null) return null;
+
+    if (await hashToField(content) !== expected) {
+      throw new DecodingError(`Metadata from ${this.backend.name} does not match on-chain hash ${expected}`, content);
+    }
+    return parseMetadata(content);
+  }
+}
+
+export function createMetadataBackend(id: MetadataBackendId, url?: string): MetadataBackend {
+  switch (id) {
+    case 'server':
+      if (!url) throw new Error('Metadata server backend needs a URL');
+      return new HttpMetadataBackend(url);
+    case 'ipfs':
+      if (!url) throw new Error('IPFS metadata backend needs an API URL');
+      return new IpfsMetadataBackend(url);
+    default:
+      return new MemoryMetadataBackend();
+  }
+}
+
+// Configured with VITE_METADATA_BACKEND and VITE_METADATA_URL; in-memory when unset, which
+// only development builds accept for save()
+export const profileMetadataStore = new ProfileMetadataStore(
+  createMetadataBackend((env.VITE_METADATA_BACKEND as MetadataBackendId) || 'memory', env.VITE_METADATA_URL),
+  !!env.DEV
+);
@@ -0,0 +1,374 @@
+// Encrypted keystore for sponsored wallet accounts
+// Key material is encrypted with AES-GCM under a key derived from the user's passphrase (PBKDF2)
+// and persisted through a swappable storage backend (IndexedDB in the browser, memory in tests)
+
+export interface KeystoreMeta {
+  version: 1;
+  salt: string;         // hex PBKDF2 salt
+  iterations: number;
+  verifierIv: string;   // hex AES-GCM iv of the verifier
+  verifier: string;     // hex ciphertext of VERIFIER_PLAINTEXT, proves the passphrase on unlock
+}
+
+export interface EncryptedAccountRecord {
+  address: string;
+  label?: string;
+  createdAt: number;
+  iv: string;
+  ciphertext: string;
+}
+
+export interface KeystoreAccount {
+  address: string;
+  label?: string;
+  createdAt: number;
+}
+
+export interface KeystoreBackup {
+  type: 'aztlan-keystore-backup';
+  meta: KeystoreMeta;
+  accounts: EncryptedAccountRecord[];
+}
+
+export interface KeystoreStorage {
+  getMeta(): Promise<KeystoreMeta | null>;
+  setMeta(meta: KeystoreMeta): Promise<void>;
+  getAccount(address: string): Promise<EncryptedAccountRecord | null>;
+  putAccount(record: EncryptedAccountRecord): Promise<void>;
+  putAccounts(records: EncryptedAccountRecord[]): Promise<void>;   // all or nothing
+  deleteAccount(address: string): Promise<void>;
+  listAccounts(): Promise<EncryptedAccountRecord[]>;
+}
+
+const PBKDF2_ITERATIONS = 310000;
+const VERIFIER_PLAINTEXT = 'aztlan-keystore';
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): ArrayBuffer => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes.buffer;
+};
+
+async function deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromHex(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(key: CryptoKey, plaintext: string): Promise<{ iv: string; ciphertext: string }> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: toHex(iv), ciphertext: toHex(ciphertext) };
+}
+
+async function decrypt(key: CryptoKey, iv: string, ciphertext: string): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromHex(iv) },
+    key,
+    fromHex(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+}
+
+const isHex = (value: unknown): value is string => typeof value === 'string' && /^([0-9a-fA-F]{2})*$/.test(value);
+
+function isKeystoreMeta(meta: any): meta is KeystoreMeta {
+  return meta?.version === 1 && isHex(meta.salt) && Number.isSafeInteger(meta.iterations) && meta.iterations > 0 &&
+    isHex(meta.verifierIv) && isHex(meta.verifier);
+}
+
+function isAccountRecord(record: any): record is EncryptedAccountRecord {
+  return typeof record?.address === 'string' && record.address.length > 0 &&
+    (record.label === undefined || typeof record.label === 'string') &&
+    Number.isSafeInteger(record.createdAt) && isHex(record.iv) && isHex(record.ciphertext);
+}
+
+// Decrypted account payload: hex pkcs8 private key and raw public key
+function isKeyPayload(payload: any): boolean {
+  return isHex(payload?.privateKey) && payload.privateKey.length > 0 && isHex(payload.publicKey) && payload.publicKey.length > 0;
+}
+
+// Resolves to the derived key, or null when the passphrase does not match the verifier
+async function openWithPassphrase(meta: KeystoreMeta, passphrase: string): Promise<CryptoKey | null> {
+  const key = await deriveKey(passphrase, meta.salt, meta.iterations);
+  try {
+    const verifier = await decrypt(key, meta.verifierIv, meta.verifier);
+    return verifier === VERIFIER_PLAINTEXT ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export class MemoryKeystoreStorage implements KeystoreStorage {
+  private meta: KeystoreMeta | null = null;
+  private accounts = new Map<string, EncryptedAccountRecord>();
+
+  async getMeta(): Promise<KeystoreMeta | null> {
+    return this.meta;
+  }
+
+  async setMeta(meta: KeystoreMeta): Promise<void> {
+    this.meta = meta;
+  }
+
+  async getAccount(address: string): Promise<EncryptedAccountRecord | null> {
+    return this.accounts.get(address) ?? null;
+  }
+
+  async putAccount(record: EncryptedAccountRecord): Promise<void> {
+    this.accounts.set(record.address, record);
+  }
+
+  async putAccounts(records: EncryptedAccountRecord[]): Promise<void> {
+    records.forEach(record => this.accounts.set(record.address, record));
+  }
+
+  async deleteAccount(address: string): Promise<void> {
+    this.accounts.delete(address);
+  }
+
+  async listAccounts(): Promise<EncryptedAccountRecord[]> {
+    return Array.from(this.accounts.values());
+  }
+}
+
+export class IndexedDbKeystoreStorage implements KeystoreStorage {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string = 'aztlan-keystore') {}
+
+  async getMeta(): Promise<KeystoreMeta | null> {
+    return (await this.request('meta', 'readonly', store => store.get('meta'))) ?? null;
+  }
+
+  async setMeta(meta: KeystoreMeta): Promise<void> {
+    await this.request('meta', 'readwrite', store => store.put(meta, 'meta'));
+  }
+
+  async getAccount(address: string): Promise<EncryptedAccountRecord | null> {
+    return (await this.request('accounts', 'readonly', store => store.get(address))) ?? null;
+  }
+
+  async putAccount(record: EncryptedAccountRecord): Promise<void> {
+    await this.request('accounts', 'readwrite', store => store.put(record));
+  }
+
+  // One transaction, so either every record is written or none is
+  async putAccounts(records: EncryptedAccountRecord[]): Promise<void> {
+    const db = await this.open();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction('accounts', 'readwrite');
+      const store = transaction.objectStore('accounts');
+      records.forEach(record => store.put(record));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async deleteAccount(address: string): Promise<void> {
+    await this.request('accounts', 'readwrite', store => store.delete(address));
+  }
+
+  async listAccounts(): Promise<EncryptedAccountRecord[]> {
+    return this.request('accounts', 'readonly', store => store.getAll());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore('meta');
+          request.result.createObjectStore('accounts', { keyPath: 'address' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(
+    storeName: 'meta' | 'accounts',
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export class SponsoredKeystore {
+  private key: CryptoKey | null = null;
+
+  constructor(private storage: KeystoreStorage = new IndexedDbKeystoreStorage()) {}
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  async isInitialized(): Promise<boolean> {
+    return (await this.storage.getMeta()) !== null;
+  }
+
+  // The first unlock sets the passphrase for the keystore
+  async unlock(passphrase: string): Promise<void> {
+    const meta = await this.storage.getMeta();
+
+    if (!meta) {
+      console.log('Initializing sponsored wallet keystore...');
+      const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+      const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+      const { iv, ciphertext } = await encrypt(key, VERIFIER_PLAINTEXT);
+      await this.storage.setMeta({
+        version: 1,
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        verifierIv: iv,
+        verifier: ciphertext
+      });
+      this.key = key;
+      return;
+    }
+
+    const key = await openWithPassphrase(meta, passphrase);
+    if (!key) {
+      throw new Error('Incorrect keystore passphrase');
+    }
+    this.key = key;
+  }
+
+  lock(): void {
+    this.key = null;
+  }
+
+  async listAccounts(): Promise<KeystoreAccount[]> {
+    const records = await this.storage.listAccounts();
+    return records
+      .map(({ address, label, createdAt }) => ({ address, label, createdAt }))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  async saveKeyPair(address: string, keyPair: CryptoKeyPair, label?: string): Promise<void> {
+    const key = this.requireKey();
+
+    const privateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+    const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+    const payload = JSON.stringify({ privateKey: toHex(privateKey), publicKey: toHex(publicKey) });
+
+    const { iv, ciphertext } = await encrypt(key, payload);
+    await this.storage.putAccount({ address, label, createdAt: Date.now(), iv, ciphertext });
+  }
+
+  async loadKeyPair(address: string): Promise<CryptoKeyPair> {
+    const key = this.requireKey();
+
+    const record = await this.storage.getAccount(address);
+    if (!record) {
+      throw new Error(`No stored account for ${address}`);
+    }
+
+    const payload = JSON.parse(await decrypt(key, record.iv, record.ciphertext));
+    const [privateKey, publicKey] = await Promise.all([
+      crypto.subtle.importKey('pkcs8', fromHex(payload.privateKey), KEY_ALGORITHM, true, ['sign']),
+      crypto.subtle.importKey('raw', fromHex(payload.publicKey), KEY_ALGORITHM, true, ['verify'])
+    ]);
+    return { privateKey, publicKey };
+  }
+
+  async removeAccount(address: string): Promise<void> {
+    await this.storage.deleteAccount(address);
+  }
+
+  // Records are exported as stored, so the backup stays encrypted under the keystore passphrase
+  async exportBackup(): Promise<Blob> {
+    const meta = await this.storage.getMeta();
+    if (!meta) {
+      throw new Error('Keystore has not been initialized');
+    }
+
+    const backup: KeystoreBackup = {
+      type: 'aztlan-keystore-backup',
+      meta,
+      accounts: await this.storage.listAccounts()
+    };
+    return new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  }
+
+  // Decrypts the backup with its own passphrase and re-encrypts every account under this keystore.
+  // Every record is checked before anything is written, and all are written together, so a
+  // damaged backup imports nothing. Resolves to the imported addresses.
+  async importBackup(file: Blob | string, passphrase: string): Promise<string[]> {
+    const key = this.requireKey();
+
+    let backup: KeystoreBackup;
+    try {
+      backup = JSON.parse(typeof file === 'string' ? file : await file.text());
+    } catch {
+      throw new Error('Invalid keystore backup file');
+    }
+    if (backup?.type !== 'aztlan-keystore-backup' || !isKeystoreMeta(backup.meta) ||
+        !Array.isArray(backup.accounts) || !backup.accounts.every(isAccountRecord)) {
+      throw new Error('Invalid keystore backup file');
+    }
+
+    const backupKey = await openWithPassphrase(backup.meta, passphrase);
+    if (!backupKey) {
+      throw new Error('Incorrect backup passphrase');
+    }
+
+    const records: EncryptedAccountRecord[] = [];
+    for (const record of backup.accounts) {
+      let payload: string;
+      try {
+        payload = await decrypt(backupKey, record.iv, record.ciphertext);
+        if (!isKeyPayload(JSON.parse(payload))) throw new Error('missing keys');
+      } catch {
+        throw new Error(`Backup record for ${record.address} is damaged`);
+      }
+      const { iv, ciphertext } = await encrypt(key, payload);
+      records.push({ address: record.address, label: record.label, createdAt: record.createdAt, iv, ciphertext });
+    }
+    await this.storage.putAccounts(records);
+
+    console.log(`✓ Imported ${records.length} account(s) from backup`);
+    return records.map(record => record.address);
+  }
+
+  private requireKey(): CryptoKey {
+    if (!this.key) {
+      throw new Error('Keystore is locked');
+    }
+    return this.key;
+  }
+}
+
+export const sponsoredKeystore = new SponsoredKeystore();
@@ -0,0 +1,232 @@
+// Pending transaction tracker
+// Records every transaction the app submits, persists them in localStorage and polls their
+// receipts until they settle, so a reload mid-deployment still shows the outcome. Polling picks
+// up where the previous page load left off; a transaction the node still reports as unknown or
+// pending after MAX_PENDING_AGE is given up on as dropped. Receipts are read through the node pool
+// of the network the transaction was sent to.
+
+import { toAztecError } from './aztec-errors';
+import { aztecNetwork } from './aztec-network';
+import { getNodePool } from './aztec-node-pool';
+import { SentTransaction, type TxReceipt, type TxStatus } from './aztec-transactions';
+import { getJsonRpcTransport, type RpcTransport } from './json-rpc-transport';
+
+export type TransactionPurpose =
+  | 'account_deployment'
+  | 'profile_creation'
+  | 'sponsored_transaction'
+  | 'verification'
+  | 'contract_call';
+
+export interface TrackedTransaction {
+  txHash: string;
+  purpose: TransactionPurpose;
+  sender: string;
+  rpcUrl: string;       // node the receipt is polled from
+  submittedAt: number;
+  updatedAt: number;
+  status: TxStatus;
+  blockNumber?: number;
+  revertReason?: string;
+  explorerUrl?: string;
+}
+
+export interface TrackTransactionOptions {
+  purpose: TransactionPurpose;
+  sender: string;
+  rpcUrl: string;
+  explorerUrl?: string;
+}
+
+export interface TransactionTrackerEvents {
+  added: (transaction: TrackedTransaction) => void;
+  updated: (transaction: TrackedTransaction) => void;
+}
+
+export type TransactionTrackerEvent = keyof TransactionTrackerEvents;
+
+const STORAGE_KEY = 'aztlan.transactions';
+const MAX_RECORDS = 100;
+const POLL_INTERVAL = 5000;
+const MAX_PENDING_AGE = 30 * 60 * 1000;
+
+export class TransactionTracker {
+  private records: Map<string, TrackedTransaction> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private listeners: { [E in TransactionTrackerEvent]: Set<TransactionTrackerEvents[E]> } = {
+    added: new Set(),
+    updated: new Set()
+  };
+
+  constructor(
+    private storageKey: string = STORAGE_KEY,
+    private pollInterval: number = POLL_INTERVAL,
+    private maxPendingAge: number = MAX_PENDING_AGE
+  ) {
+    this.resume();
+  }
+
+  // Start following a submitted transaction; tracking the same hash twice is a no-op
+  track(txHash: string, options: TrackTransactionOptions): TrackedTransaction {
+    const records = this.load();
+    const existing = records.get(txHash);
+    if (existing) return existing;
+
+    const now = Date.now();
+    const transaction: TrackedTransaction = {
+      txHash,
+      ...options,
+      submittedAt: now,
+      updatedAt: now,
+      status: 'pending'
+    };
+    records.set(txHash, transaction);
+    this.prune();
+    this.save();
+
+    console.log(`Tracking ${options.purpose} transaction ${txHash}`);
+    this.emit('added', transaction);
+    this.schedule(0);
+    return transaction;
+  }
+
+  get(txHash: string): TrackedTransaction | null {
+    return this.load().get(txHash) ?? null;
+  }
+
+  // Newest first, optionally filtered by sender or purpose
+  list(filter: { sender?: string; purpose?: TransactionPurpose } = {}): TrackedTransaction[] {
+    return Array.from(this.load().values())
+      .filter(tx => (!filter.sender || tx.sender === filter.sender) && (!filter.purpose || tx.purpose === filter.purpose))
+      .sort((a, b) => b.submittedAt - a.submittedAt);
+  }
+
+  pending(): TrackedTransaction[] {
+    return this.list().filter(tx => tx.status === 'pending');
+  }
+
+  // Resume polling transactions left pending by a previous page load; runs on construction
+  resume(): void {
+    if (this.pending().length > 0) this.schedule(0);
+  }
+
+  remove(txHash: string): void {
+    if (this.load().delete(txHash)) this.save();
+  }
+
+  clearSettled(): void {
+    const records = this.load();
+    for (const [txHash, tx] of records) {
+      if (tx.status !== 'pending') records.delete(txHash);
+    }
+    this.save();
+  }
+
+  on<E extends TransactionTrackerEvent>(event: E, handler: TransactionTrackerEvents[E]): () => void {
+    this.listeners[event].add(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends TransactionTrackerEvent>(event: E, handler: TransactionTrackerEvents[E]): void {
+    this.listeners[event].delete(handler);
+  }
+
+  private emit<E extends TransactionTrackerEvent>(event: E, transaction: TrackedTransaction): void {
+    this.listeners[event].forEach(handler => {
+      try {
+        handler({ ...transaction });
+      } catch (error) {
+        console.error(`Transaction tracker ${event} handler failed:`, error);
+      }
+    });
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer || this.polling) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, delay);
+  }
+
+  private async poll(): Promise<void> {
+    this.polling = true;
+    try {
+      await Promise.all(this.pending().map(tx => this.refresh(tx)));
+    } finally {
+      this.polling = false;
+    }
+    if (this.pending().length > 0) this.schedule(this.pollInterval);
+  }
+
+  // A failed poll proves nothing about the transaction, so only an answer from the node can expire it
+  private async refresh(tx: TrackedTransaction): Promise<void> {
+    let receipt: TxReceipt;
+    try {
+      receipt = await new SentTransaction(tx.txHash, this.transportFor(tx)).getReceipt();
+    } catch (error) {
+      console.log(`Receipt poll for ${tx.txHash} failed:`, toAztecError(error).message);
+      return;
+    }
+    if (receipt.status === 'pending') {
+      if (Date.now() - tx.submittedAt <= this.maxPendingAge) return;
+      receipt = { txHash: tx.txHash, status: 'dropped' };
+    }
+
+    const updated: TrackedTransaction = {
+      ...tx,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      revertReason: receipt.revertReason,
+      updatedAt: Date.now()
+    };
+    this.load().set(tx.txHash, updated);
+    this.save();
+
+    console.log(`${tx.purpose} transaction ${tx.txHash} ${receipt.status}`);
+    this.emit('updated', updated);
+  }
+
+  // The pool of the network whose node the transaction was sent to; a bare transport for a
+  // node no known network uses any more (e.g. a custom network since reconfigured)
+  private transportFor(tx: TrackedTransaction): RpcTransport {
+    const network = aztecNetwork.listNetworks().find(profile => profile.rpcUrl === tx.rpcUrl);
+    return network ? getNodePool(network) : getJsonRpcTransport(tx.rpcUrl);
+  }
+
+  // Drop the oldest settled records once over the limit; pending ones are always kept
+  private prune(): void {
+    const records = this.load();
+    const settled = Array.from(records.values())
+      .filter(tx => tx.status !== 'pending')
+      .sort((a, b) => a.submittedAt - b.submittedAt);
+    while (records.size > MAX_RECORDS && settled.length > 0) {
+      records.delete(settled.shift()!.txHash);
+    }
+  }
+
+  private load(): Map<string, TrackedTransaction> {
+    if (this.records) return this.records;
+
+    this.records = new Map();
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      const stored: TrackedTransaction[] = raw ? JSON.parse(raw) : [];
+      stored.forEach(tx => this.records!.set(tx.txHash, tx));
+    } catch (error) {
+      console.log('Unable to load tracked transactions:', error);
+    }
+    return this.records;
+  }
+
+  private save(): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(Array.from(this.load().values())));
+    } catch (error) {
+      console.log('Unable to persist tracked transactions:', error);
+    }
+  }
+}
+
+export const transactionTracker = new TransactionTracker();
@@ -0,0 +1,130 @@
+// Verification providers
+// PrivateSocial stores one verification flag per provider in a fixed [bool; 6]. This registry
+// names each slot and describes how an account is proven: the app collects evidence (an OAuth
+// code, an emailed code...), the attestation service checks it and signs an attestation, and the
+// attestation is submitted to PrivateSocial from the profile owner's account.
+
+import { hashToField } from './aztec-codec';
+import { DecodingError, NetworkError, toFetchError } from './aztec-errors';
+
+export type VerificationProviderId = 'twitter' | 'discord' | 'github' | 'telegram' | 'email' | 'phone';
+
+export type VerificationEvidence = 'oauth' | 'login_widget' | 'one_time_code';
+
+export interface VerificationProvider {
+  id: VerificationProviderId;
+  slot: number;                 // index in get_profile_verifications
+  name: string;
+  evidence: VerificationEvidence;
+  identifierLabel: string;      // what the user links, e.g. "Username" or "Email address"
+}
+
+// Signed by the attestation service; submit_verification checks the signature on-chain
+export interface VerificationAttestation {
+  profileId: string;
+  provider: VerificationProviderId;
+  identifierHash: string;       // field hash of the normalized account identifier, never the identifier itself
+  attester: string;             // attestation service account
+  expiresAt: number;            // unix seconds
+  signature: number[];          // 64-byte Schnorr signature
+}
+
+const env = import.meta.env;
+
+// In slot order; the contract's [bool; 6] has the same layout
+export const VERIFICATION_PROVIDERS = [
+  { id: 'twitter', slot: 0, name: 'X (Twitter)', evidence: 'oauth', identifierLabel: 'Username' },
+  { id: 'discord', slot: 1, name: 'Discord', evidence: 'oauth', identifierLabel: 'Username' },
+  { id: 'github', slot: 2, name: 'GitHub', evidence: 'oauth', identifierLabel: 'Username' },
+  { id: 'telegram', slot: 3, name: 'Telegram', evidence: 'login_widget', identifierLabel: 'Username' },
+  { id: 'email', slot: 4, name: 'Email', evidence: 'one_time_code', identifierLabel: 'Email address' },
+  { id: 'phone', slot: 5, name: 'Phone', evidence: 'one_time_code', identifierLabel: 'Phone number' }
+] as const satisfies readonly VerificationProvider[];
+
+export function getVerificationProvider(id: VerificationProviderId): VerificationProvider {
+  const provider = VERIFICATION_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown verification provider "${id}"`);
+  }
+  return provider;
+}
+
+// Identifiers are compared case-insensitively and without a leading @
+export function hashIdentifier(identifier: string): Promise<string> {
+  return hashToField(identifier.trim().replace(/^@/, '').toLowerCase());
+}
+
+function sameField(a: unknown, b: string): boolean {
+  try {
+    return BigInt(a as string) === BigInt(b);
+  } catch {
+    return false;
+  }
+}
+
+function parseAttestation(raw: any, profileId: string, provider: VerificationProviderId): VerificationAttestation {
+  const signature = raw?.signature;
+  const expiresAt = Number(raw?.expiresAt);
+  if (
+    typeof raw?.identifierHash !== 'string' ||
+    typeof raw?.attester !== 'string' ||
+    !Number.isSafeInteger(expiresAt) ||
+    !Array.isArray(signature) || signature.length !== 64 ||
+    !signature.every((byte: unknown) => Number.isInteger(byte) && (byte as number) >= 0 && (byte as number) < 256)
+  ) {
+    throw new DecodingError('Invalid verification attestation', raw);
+  }
+  if (raw.profileId !== undefined && !sameField(raw.profileId, profileId)) {
+    throw new DecodingError(`Attestation was issued for profile ${raw.profileId}, not ${profileId}`, raw);
+  }
+  return { profileId, provider, identifierHash: raw.identifierHash, attester: raw.attester, expiresAt, signature };
+}
+
+// Client for the off-chain service that checks evidence and signs attestations:
+// POST {baseUrl}/attestations/{provider} with { profileId, evidence }
+export class AttestationService {
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async requestAttestation(
+    provider: VerificationProviderId,
+    profileId: string,
+    evidence: Record<string, string>
+  ): Promise<VerificationAttestation> {
+    if (!this.baseUrl) {
+      throw new NetworkError('No attestation service configured', undefined, false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/attestations/${provider}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profileId, evidence })
+      });
+    } catch (error) {
+      throw toFetchError(error);
+    }
+    if (!response.ok) {
+      const message = await response.text().catch(() => '');
+      throw new NetworkError(
+        `${getVerificationProvider(provider).name} verification failed: HTTP ${response.status}${message ? ` ${message}` : ''}`,
+        response.status,
+        response.status >= 500
+      );
+    }
+
+    let raw: unknown;
+    try {
+      raw = await response.json();
+    } catch (error) {
+      throw new DecodingError('Attestation service returned invalid JSON', error);
+    }
+    return parseAttestation(raw, profileId, provider);
+  }
+}
+
+export const attestationService = new AttestationService(env.VITE_ATTESTATION_SERVICE_URL || '');
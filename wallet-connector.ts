@@ -0,0 +1,91 @@
+// Common wallet connector interface for AzGuard, account abstraction and sponsored wallets
+// The UI drives every wallet through this interface instead of branching on the provider string
+
+import { azguardConnector } from './azguard-client (2)';
+import { aztecAccountAbstraction } from './aztec-aa';
+import { aztecSponsoredWallet } from './aztec-client (1)';
+import type { AztecContractCall } from './aztec-contracts';
+import type { AztecError } from './aztec-errors';
+
+export type WalletProvider = 'azguard' | 'account_abstraction' | 'sponsored';
+
+export interface WalletCapabilities {
+  signMessage: boolean;
+  sendTransaction: boolean;
+  gasless: boolean;
+  requiresExtension: boolean;
+}
+
+export interface WalletAccount {
+  address: string;
+  getAddress: () => { toString: () => string };
+}
+
+export interface WalletConnectionResult<TAccount extends WalletAccount = WalletAccount> {
+  success: boolean;
+  address?: string;
+  account?: TAccount;
+  provider?: WalletProvider;
+  error?: string;
+  cause?: AztecError;
+}
+
+export interface RawTransactionRequest {
+  to: string;
+  data: string;
+}
+
+// Either an already encoded payload or an ABI-described contract call
+export type WalletTransactionRequest = RawTransactionRequest | AztecContractCall;
+
+export interface WalletTransactionResult {
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+  cause?: AztecError;
+}
+
+export interface WalletConnector<TAccount extends WalletAccount = WalletAccount> {
+  readonly id: WalletProvider;
+  readonly name: string;
+  readonly capabilities: WalletCapabilities;
+  isAvailable(): Promise<boolean>;
+  connect(): Promise<WalletConnectionResult<TAccount>>;
+  // Resume an existing session without prompting; null when there is nothing to resume
+  restore?(): Promise<WalletConnectionResult<TAccount> | null>;
+  disconnect(): Promise<void>;
+  getAddress(): string | null;
+  signMessage(message: string): Promise<string>;
+  sendTransaction(request: WalletTransactionRequest): Promise<WalletTransactionResult>;
+}
+
+class WalletConnectorRegistry {
+  private connectors = new Map<WalletProvider, WalletConnector>();
+
+  register(connector: WalletConnector): void {
+    this.connectors.set(connector.id, connector);
+  }
+
+  get(id: WalletProvider): WalletConnector | undefined {
+    return this.connectors.get(id);
+  }
+
+  list(): WalletConnector[] {
+    return Array.from(this.connectors.values());
+  }
+
+  // Only the connectors that can be used in the current browser (e.g. extension installed)
+  async listAvailable(): Promise<WalletConnector[]> {
+    const connectors = this.list();
+    const availability = await Promise.all(
+      connectors.map(connector => connector.isAvailable().catch(() => false))
+    );
+    return connectors.filter((_, i) => availability[i]);
+  }
+}
+
+export const walletConnectors = new WalletConnectorRegistry();
+
+walletConnectors.register(azguardConnector);
+walletConnectors.register(aztecAccountAbstraction);
+walletConnectors.register(aztecSponsoredWallet);